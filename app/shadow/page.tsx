@@ -0,0 +1,35 @@
+import type { Metadata } from 'next';
+import dynamic from 'next/dynamic';
+
+const ShadowGenerator = dynamic(() => import('@/features/shadow-generator'));
+
+const description = 'Design layered outset and inset button shadows. Export as HTML/CSS or Tailwind code.';
+
+export const metadata: Metadata = {
+  title: 'Smooth Shadow Generator',
+  description,
+  openGraph: {
+    title: 'Smooth Shadow Generator',
+    description,
+    type: 'website',
+    url: '/shadow',
+    images: [
+      {
+        url: '/og-image.png',
+        width: 1200,
+        height: 630,
+        alt: 'Smooth Shadow Generator',
+      },
+    ],
+  },
+  twitter: {
+    card: 'summary_large_image',
+    title: 'Smooth Shadow Generator',
+    description,
+    images: ['/og-image.png'],
+  },
+};
+
+export default function Page() {
+  return <ShadowGenerator />;
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import type { HistoryEntry } from '@/lib/use-history';
+
+interface HistoryPanelProps<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+  onJump: (index: number) => void;
+  onClear: () => void;
+}
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Newest first; steps after the current one are the redo branch and stay reachable until the next change
+export function HistoryPanel<T>({ entries, index, onJump, onClear }: HistoryPanelProps<T>) {
+  return (
+    <fieldset className="border-none p-0 m-0">
+      <legend className="sr-only">History</legend>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider">History</span>
+        <Button variant="ghost" size="xs" onClick={onClear} disabled={entries.length <= 1} className="text-[10px] font-bold text-muted-foreground">
+          CLEAR
+        </Button>
+      </div>
+
+      <ol className="flex flex-col gap-0.5 p-1 rounded-lg shadow-inner bg-muted max-h-48 overflow-y-auto">
+        {entries.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => (
+          <li key={`${i}-${entry.at}`}>
+            <button
+              onClick={() => onJump(i)}
+              aria-current={i === index ? 'step' : undefined}
+              className={`w-full flex items-center justify-between gap-2 px-2 py-1 rounded-md text-left text-xs transition-colors ${
+                i === index ? 'bg-background font-medium text-foreground' : i > index ? 'text-muted-foreground/60 hover:bg-background' : 'text-muted-foreground hover:bg-background'
+              }`}
+            >
+              <span className="truncate">{entry.label}</span>
+              <span className="shrink-0 font-mono text-[10px] tabular-nums">{formatTime(entry.at)}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </fieldset>
+  );
+}
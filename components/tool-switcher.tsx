@@ -0,0 +1,31 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+
+const TOOLS = [
+  { href: '/',       label: 'Blur'   },
+  { href: '/shadow', label: 'Shadow' },
+];
+
+// Sits where each generator's title used to be, so both tools share the same header
+export function ToolSwitcher() {
+  const pathname = usePathname();
+  return (
+    <nav aria-label="Generators" className="flex gap-0.5 p-0.5 rounded-md bg-muted">
+      {TOOLS.map(tool => {
+        const active = pathname === tool.href;
+        return (
+          <Link
+            key={tool.href}
+            href={tool.href}
+            aria-current={active ? 'page' : undefined}
+            className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider transition-colors ${active ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'}`}
+          >
+            {tool.label}
+          </Link>
+        );
+      })}
+    </nav>
+  );
+}
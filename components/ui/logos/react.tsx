@@ -0,0 +1,14 @@
+import type { SVGProps } from "react";
+
+const ReactJS = (props: SVGProps<SVGSVGElement>) => (
+  <svg {...props} viewBox="-11.5 -10.232 23 20.463">
+    <circle r="2.05" fill="#61dafb" />
+    <g fill="none" stroke="#61dafb">
+      <ellipse rx="11" ry="4.2" />
+      <ellipse rx="11" ry="4.2" transform="rotate(60)" />
+      <ellipse rx="11" ry="4.2" transform="rotate(120)" />
+    </g>
+  </svg>
+);
+
+export { ReactJS };
@@ -0,0 +1,13 @@
+import type { SVGProps } from "react";
+
+const SVGLogo = (props: SVGProps<SVGSVGElement>) => (
+  <svg {...props} fill="none" viewBox="0 0 32 32">
+    <rect width="32" height="32" rx="7" fill="#ffb13b" />
+    <path stroke="#000" strokeWidth="2.5" strokeLinecap="round" d="M7 23c3-9 6-13 9-13s6 4 9 13" />
+    <circle cx="7" cy="23" r="2.5" fill="#000" />
+    <circle cx="25" cy="23" r="2.5" fill="#000" />
+    <circle cx="16" cy="10" r="2.5" fill="#000" />
+  </svg>
+);
+
+export { SVGLogo };
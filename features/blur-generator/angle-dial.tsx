@@ -0,0 +1,86 @@
+'use client';
+
+import React, { useId, useRef, useState } from 'react';
+
+interface AngleDialProps {
+  value: number;
+  onChange: (val: number) => void;
+}
+
+const normalize = (deg: number) => ((Math.round(deg) % 360) + 360) % 360;
+
+// CSS gradient angles: 0deg points up, increasing clockwise
+export function AngleDial({ value, onChange }: AngleDialProps) {
+  const id = useId();
+  const dialRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const angleFromEvent = (e: React.PointerEvent) => {
+    const rect = dialRef.current!.getBoundingClientRect();
+    const dx = e.clientX - (rect.left + rect.width / 2);
+    const dy = e.clientY - (rect.top + rect.height / 2);
+    const deg = (Math.atan2(dx, -dy) * 180) / Math.PI;
+    // Shift snaps to 15° increments
+    return normalize(e.shiftKey ? Math.round(deg / 15) * 15 : deg);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? 15 : 1;
+    if (e.key === 'ArrowRight' || e.key === 'ArrowUp')   { e.preventDefault(); onChange(normalize(value + step)); }
+    if (e.key === 'ArrowLeft'  || e.key === 'ArrowDown') { e.preventDefault(); onChange(normalize(value - step)); }
+  };
+
+  const rad = (value * Math.PI) / 180;
+
+  return (
+    <div className="flex items-center gap-3">
+      <div
+        ref={dialRef}
+        role="slider"
+        tabIndex={0}
+        aria-label="Blur angle"
+        aria-valuemin={0}
+        aria-valuemax={359}
+        aria-valuenow={value}
+        aria-valuetext={`${value} degrees`}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          setDragging(true);
+          onChange(angleFromEvent(e));
+        }}
+        onPointerMove={(e) => { if (dragging) onChange(angleFromEvent(e)); }}
+        onPointerUp={() => setDragging(false)}
+        onPointerCancel={() => setDragging(false)}
+        onKeyDown={handleKeyDown}
+        className={`relative size-12 shrink-0 rounded-full bg-muted shadow-inner touch-none outline-none focus-visible:ring-2 focus-visible:ring-ring ${dragging ? 'cursor-grabbing' : 'cursor-grab'}`}
+      >
+        <svg aria-hidden="true" viewBox="0 0 48 48" className="absolute inset-0 text-foreground">
+          <line
+            x1={24} y1={24}
+            x2={24 + Math.sin(rad) * 16} y2={24 - Math.cos(rad) * 16}
+            stroke="currentColor" strokeWidth={2} strokeLinecap="round"
+          />
+          <circle cx={24 + Math.sin(rad) * 16} cy={24 - Math.cos(rad) * 16} r={4} className="fill-background stroke-current" strokeWidth={1.5} />
+          <circle cx={24} cy={24} r={1.5} fill="currentColor" />
+        </svg>
+      </div>
+      <div className="flex-1 flex items-center justify-end gap-1">
+        <label htmlFor={id} className="sr-only">Angle in degrees</label>
+        <input
+          id={id}
+          type="number"
+          min={0}
+          max={360}
+          step={1}
+          value={value}
+          onChange={(e) => {
+            const n = parseFloat(e.target.value);
+            if (Number.isFinite(n)) onChange(normalize(Math.min(360, Math.max(0, n))));
+          }}
+          className="w-16 px-2 py-1 text-xs font-mono text-right tabular-nums rounded-md border border-border outline-none bg-background text-foreground focus:ring-2 focus:ring-ring"
+        />
+        <span className="text-xs font-mono text-muted-foreground">°</span>
+      </div>
+    </div>
+  );
+}
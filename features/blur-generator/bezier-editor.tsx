@@ -0,0 +1,127 @@
+'use client';
+
+import React, { useId, useRef, useState } from 'react';
+import { parseCubicBezier, type CubicBezier } from '@/lib/blur-utils';
+
+interface BezierEditorProps {
+  value: CubicBezier;
+  onChange: (val: CubicBezier) => void;
+}
+
+// Graph area inside the 0–100 viewBox; y is allowed to overshoot into the padding
+const PAD  = 14;
+const SIZE = 100 - PAD * 2;
+
+const toX = (v: number) => PAD + v * SIZE;
+const toY = (v: number) => PAD + (1 - v) * SIZE;
+
+const round = (v: number) => Math.round(v * 100) / 100;
+const format = (b: CubicBezier) => b.map(round).join(', ');
+
+export function BezierEditor({ value, onChange }: BezierEditorProps) {
+  const id = useId();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<0 | 1 | null>(null);
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const [x1, y1, x2, y2] = value;
+  const invalid = draft !== null && parseCubicBezier(draft) === null;
+
+  const pointFromEvent = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const vx = ((e.clientX - rect.left) / rect.width) * 100;
+    const vy = ((e.clientY - rect.top) / rect.height) * 100;
+    const x = Math.min(1, Math.max(0, (vx - PAD) / SIZE));
+    const y = Math.min(1.5, Math.max(-0.5, 1 - (vy - PAD) / SIZE));
+    return [round(x), round(y)] as const;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragging === null) return;
+    const [x, y] = pointFromEvent(e);
+    onChange(dragging === 0 ? [x, y, x2, y2] : [x1, y1, x, y]);
+  };
+
+  // Arrow keys nudge the focused handle, Shift for bigger steps
+  const handleKeyDown = (handle: 0 | 1) => (e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? 0.1 : 0.01;
+    const delta: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0], ArrowRight: [step, 0], ArrowUp: [0, step], ArrowDown: [0, -step],
+    };
+    const d = delta[e.key];
+    if (!d) return;
+    e.preventDefault();
+    const [hx, hy] = handle === 0 ? [x1, y1] : [x2, y2];
+    const x = round(Math.min(1, Math.max(0, hx + d[0])));
+    const y = round(Math.min(1.5, Math.max(-0.5, hy + d[1])));
+    onChange(handle === 0 ? [x, y, x2, y2] : [x1, y1, x, y]);
+  };
+
+  const commitDraft = () => {
+    if (draft === null) return;
+    const parsed = parseCubicBezier(draft);
+    if (parsed) onChange(parsed.map(round) as CubicBezier);
+    setDraft(null);
+  };
+
+  const handles = [
+    { idx: 0 as const, x: x1, y: y1, ax: 0, ay: 0, label: 'First control point' },
+    { idx: 1 as const, x: x2, y: y2, ax: 1, ay: 1, label: 'Second control point' },
+  ];
+
+  return (
+    <div className="flex flex-col gap-2 pt-2">
+      <svg
+        ref={svgRef}
+        viewBox="0 0 100 100"
+        role="group"
+        aria-label="Cubic bezier curve editor"
+        className="w-full aspect-square max-h-40 rounded-lg bg-muted shadow-inner touch-none select-none text-foreground"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragging(null)}
+        onPointerCancel={() => setDragging(null)}
+      >
+        <rect x={PAD} y={PAD} width={SIZE} height={SIZE} fill="none" stroke="currentColor" strokeOpacity={0.12} strokeWidth={0.5} />
+        <line x1={toX(0)} y1={toY(0)} x2={toX(1)} y2={toY(1)} stroke="currentColor" strokeOpacity={0.15} strokeWidth={0.5} strokeDasharray="2 2" />
+        <path
+          d={`M${toX(0)} ${toY(0)} C ${toX(x1)} ${toY(y1)} ${toX(x2)} ${toY(y2)} ${toX(1)} ${toY(1)}`}
+          fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinecap="round"
+        />
+        {handles.map(h => (
+          <g key={h.idx}>
+            <line x1={toX(h.ax)} y1={toY(h.ay)} x2={toX(h.x)} y2={toY(h.y)} stroke="currentColor" strokeOpacity={0.4} strokeWidth={0.75} />
+            <circle
+              cx={toX(h.x)} cy={toY(h.y)} r={4}
+              role="slider"
+              tabIndex={0}
+              aria-label={h.label}
+              aria-valuetext={`x ${round(h.x)}, y ${round(h.y)}`}
+              onPointerDown={(e) => {
+                (e.currentTarget.ownerSVGElement ?? e.currentTarget).setPointerCapture(e.pointerId);
+                setDragging(h.idx);
+              }}
+              onKeyDown={handleKeyDown(h.idx)}
+              className={`fill-background stroke-current cursor-grab outline-none focus-visible:stroke-primary ${dragging === h.idx ? 'cursor-grabbing' : ''}`}
+              strokeWidth={1.5}
+            />
+          </g>
+        ))}
+      </svg>
+
+      <div className="flex items-center justify-between gap-3">
+        <label htmlFor={id} className="text-xs font-medium text-muted-foreground shrink-0">Bezier</label>
+        <input
+          id={id}
+          type="text"
+          spellCheck={false}
+          value={draft ?? format(value)}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitDraft}
+          onKeyDown={(e) => { if (e.key === 'Enter') commitDraft(); if (e.key === 'Escape') setDraft(null); }}
+          aria-invalid={invalid}
+          className={`w-full min-w-0 px-2 py-1 text-xs font-mono rounded-md border outline-none bg-background text-foreground focus:ring-2 focus:ring-ring ${invalid ? 'border-destructive' : 'border-border'}`}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import React, { useId } from 'react';
+
+interface ColorRowProps {
+  label: string;
+  /** `#rrggbb` */
+  value: string;
+  onChange: (val: string) => void;
+}
+
+export function ColorRow({ label, value, onChange }: ColorRowProps) {
+  const id = useId();
+  return (
+    <div className="flex items-center justify-between gap-3 py-1.5">
+      <label htmlFor={id} className="text-xs font-medium text-muted-foreground w-16 shrink-0">{label}</label>
+      <div className="flex-1 flex items-center justify-end gap-2">
+        <span className="text-xs font-mono uppercase text-muted-foreground">{value}</span>
+        <input
+          id={id}
+          type="color"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="size-6 shrink-0 cursor-pointer rounded-md border border-border bg-transparent p-0 outline-none focus-visible:ring-2 focus-visible:ring-ring [&::-webkit-color-swatch-wrapper]:p-0.5 [&::-webkit-color-swatch]:rounded [&::-webkit-color-swatch]:border-none"
+        />
+      </div>
+    </div>
+  );
+}
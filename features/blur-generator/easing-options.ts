@@ -0,0 +1,8 @@
+// Custom beziers are a single shared curve, so edges and tints pick from the named presets only
+export const NAMED_PRESET_OPTIONS = ['linear', 'sine', 'quad', 'cubic', 'quart', 'quint', 'expo', 'circ'].map(p => ({ value: p, label: p }));
+
+export const EASING_TYPE_OPTIONS = [
+  { value: 'in',     label: 'In'     },
+  { value: 'out',    label: 'Out'    },
+  { value: 'in-out', label: 'In Out' },
+];
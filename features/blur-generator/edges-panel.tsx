@@ -0,0 +1,41 @@
+'use client';
+
+import React from 'react';
+import { EDGES, type Edge, type EdgeSettings } from '@/lib/blur-utils';
+import { SliderRow } from './slider-row';
+import { SelectRow } from './select-row';
+import { ToggleRow } from './toggle-row';
+import { NAMED_PRESET_OPTIONS, EASING_TYPE_OPTIONS } from './easing-options';
+
+interface EdgesPanelProps {
+  value: Record<Edge, EdgeSettings>;
+  onChange: (val: Record<Edge, EdgeSettings>) => void;
+}
+
+const LABELS: Record<Edge, string> = { top: 'Top edge', right: 'Right edge', bottom: 'Bottom edge', left: 'Left edge' };
+
+export function EdgesPanel({ value, onChange }: EdgesPanelProps) {
+  const update = (edge: Edge, patch: Partial<EdgeSettings>) => onChange({ ...value, [edge]: { ...value[edge], ...patch } });
+
+  return (
+    <div className="flex flex-col gap-1">
+      {EDGES.map(edge => {
+        const settings = value[edge];
+        return (
+          <div key={edge} className={settings.enabled ? 'pb-1' : ''}>
+            <ToggleRow label={LABELS[edge]} checked={settings.enabled} onChange={(enabled) => update(edge, { enabled })} />
+            {settings.enabled && (
+              <div className="pl-3 ml-0.5 border-l border-border">
+                <SliderRow label="Height" value={settings.height} min={0} max={100} step={1} onChange={(height) => update(edge, { height })} unit="%" />
+                <SelectRow label="Easing" value={settings.preset} options={NAMED_PRESET_OPTIONS} onChange={(preset) => update(edge, { preset })} />
+                {settings.preset !== 'linear' && (
+                  <SelectRow label="Type" value={settings.easingType} options={EASING_TYPE_OPTIONS} onChange={(easingType) => update(edge, { easingType })} />
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
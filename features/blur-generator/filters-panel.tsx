@@ -0,0 +1,52 @@
+'use client';
+
+import React from 'react';
+import { BACKDROP_FILTERS, type BlurState, type FilterName } from '@/lib/blur-utils';
+import { SliderRow } from './slider-row';
+
+interface FiltersPanelProps {
+  value: BlurState['filters'];
+  onChange: (val: BlurState['filters']) => void;
+}
+
+const LABELS: Record<FilterName, string> = {
+  saturate:     'Saturate',
+  brightness:   'Brightness',
+  contrast:     'Contrast',
+  grayscale:    'Grayscale',
+  'hue-rotate': 'Hue',
+};
+
+export function FiltersPanel({ value, onChange }: FiltersPanelProps) {
+  const isNeutral = BACKDROP_FILTERS.every(f => value[f.name] === f.neutral);
+  const reset = () => onChange(Object.fromEntries(BACKDROP_FILTERS.map(f => [f.name, f.neutral])) as BlurState['filters']);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider">Extra filters</span>
+        {!isNeutral && (
+          <button
+            type="button"
+            onClick={reset}
+            className="text-[10px] font-medium text-muted-foreground hover:text-foreground transition-colors outline-none focus-visible:ring-2 focus-visible:ring-ring rounded"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+      {BACKDROP_FILTERS.map(f => (
+        <SliderRow
+          key={f.name}
+          label={LABELS[f.name]}
+          value={value[f.name]}
+          min={f.min}
+          max={f.max}
+          step={1}
+          onChange={(v) => onChange({ ...value, [f.name]: v })}
+          unit={f.unit === 'deg' ? '°' : f.unit}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { IconX } from '@tabler/icons-react';
+import { Button } from '@/components/ui/button';
+import type { BlurState } from '@/lib/blur-utils';
+import { importBlur, type ImportedBlur } from '@/lib/blur-import';
+
+interface ImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImport: (state: BlurState) => void;
+}
+
+export function ImportDialog({ open, onClose, onImport }: ImportDialogProps) {
+  const id = useId();
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [source, setSource] = useState('');
+  const [result, setResult] = useState<ImportedBlur | null>(null);
+
+  // The native dialog handles focus trapping and Escape; this keeps it in step with `open`
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    if (open && !dialog.open) dialog.showModal();
+    if (!open && dialog.open) dialog.close();
+  }, [open]);
+
+  const close = () => {
+    setResult(null);
+    onClose();
+  };
+
+  const handleImport = () => {
+    const imported = importBlur(source);
+    setResult(imported);
+    if (!imported.state) return;
+    onImport(imported.state);
+    if (imported.issues.length === 0) close();
+  };
+
+  return (
+    <dialog
+      ref={dialogRef}
+      aria-labelledby={`${id}-title`}
+      onClose={close}
+      onClick={(e) => { if (e.target === e.currentTarget) close(); }}
+      className="m-auto w-[min(32rem,calc(100vw-2rem))] rounded-xl border border-border bg-popover text-foreground shadow-2xl p-0 backdrop:bg-black/40 backdrop:backdrop-blur-sm"
+    >
+      <div className="flex flex-col gap-3 p-4">
+        <div className="flex items-center justify-between">
+          <h2 id={`${id}-title`} className="text-sm font-bold">Import CSS</h2>
+          <Button variant="ghost" size="icon-xs" onClick={close} aria-label="Close" className="text-muted-foreground hover:text-foreground">
+            <IconX size={14} stroke={2} />
+          </Button>
+        </div>
+        <label htmlFor={`${id}-source`} className="text-xs text-muted-foreground">
+          Paste a CSS rule, a JSX style object or Tailwind classes with a <code className="font-mono">mask-image</code> gradient and a <code className="font-mono">backdrop-filter</code>.
+        </label>
+        <textarea
+          id={`${id}-source`}
+          value={source}
+          onChange={(e) => { setSource(e.target.value); setResult(null); }}
+          rows={8}
+          spellCheck={false}
+          placeholder={'.overlay {\n  backdrop-filter: blur(12px);\n  mask-image: linear-gradient(to top, black, rgba(0, 0, 0, 0.5) 20%, transparent 40%);\n}'}
+          className="w-full resize-y px-2 py-1.5 text-xs font-mono rounded-md border border-border outline-none bg-background text-foreground placeholder:text-muted-foreground focus:ring-2 focus:ring-ring"
+        />
+
+        {result && result.issues.length > 0 && (
+          <div role="status" className={`rounded-md border p-2.5 text-xs ${result.state ? 'border-border bg-muted/50' : 'border-destructive/40 bg-destructive/10'}`}>
+            <p className="font-semibold mb-1">
+              {result.state ? 'Imported with some differences:' : 'Nothing could be imported:'}
+            </p>
+            <ul className="list-disc pl-4 flex flex-col gap-0.5 text-muted-foreground">
+              {result.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {result?.state ? (
+            <Button size="sm" onClick={close} className="text-[11px] font-bold">DONE</Button>
+          ) : (
+            <>
+              <Button variant="ghost" size="sm" onClick={close} className="text-[11px] font-bold">CANCEL</Button>
+              <Button size="sm" onClick={handleImport} disabled={!source.trim()} className="text-[11px] font-bold">IMPORT</Button>
+            </>
+          )}
+        </div>
+      </div>
+    </dialog>
+  );
+}
@@ -1,54 +1,95 @@
 ﻿'use client';
 
-import React, { useState, useMemo, useRef, useEffect, useCallback, useId } from 'react';
+import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
 import {
   IconArrowUp, IconArrowDown, IconArrowRight, IconArrowLeft,
+  IconArrowUpRight, IconArrowDownRight, IconArrowDownLeft, IconArrowUpLeft,
   IconRotateClockwise, IconSun, IconMoon, IconCopy, IconChevronUp,
   IconArrowBackUp, IconArrowForwardUp, IconUpload, IconX,
-  IconCheck, IconAdjustments, IconRefresh, IconExternalLink,
+  IconCheck, IconAdjustments, IconRefresh, IconExternalLink, IconLink, IconDownload, IconPlayerPlay,
+  IconFileImport,
 } from '@tabler/icons-react';
 import { HTML5 } from '@/components/ui/logos/html';
 import { TailwindCSS } from '@/components/ui/logos/tailwind';
+import { ReactJS } from '@/components/ui/logos/react';
+import { Vue } from '@/components/ui/logos/vue';
+import { Svelte } from '@/components/ui/logos/svelte';
+import { SVGLogo } from '@/components/ui/logos/svg';
 import Image from 'next/image';
 import { motion, AnimatePresence, LayoutGroup } from 'motion/react';
 import { useTheme } from 'next-themes';
 import { sileo } from 'sileo';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
+import { HistoryPanel } from '@/components/history-panel';
+import { ToolSwitcher } from '@/components/tool-switcher';
 import { SliderRow } from './slider-row';
-import { getEasing } from '@/lib/blur-utils';
-import { saveImageToDB, loadImageFromDB, deleteImageFromDB } from '@/lib/db';
-
+import { ToggleRow } from './toggle-row';
+import { SelectRow } from './select-row';
+import { BezierEditor } from './bezier-editor';
+import { AngleDial } from './angle-dial';
+import { PresetsPanel } from './presets-panel';
+import { EdgesPanel } from './edges-panel';
+import { TintPanel } from './tint-panel';
+import { FiltersPanel } from './filters-panel';
+import { LegibilityPanel } from './legibility-panel';
+import { StopGraph } from './stop-graph';
+import { ImportDialog } from './import-dialog';
+import {
+  buildBackdropFilter, buildMaskImage, buildTintImage, getBlurLayers, getMaskStops, isLayered, DEFAULT_BLUR_STATE,
+  type BlurState, type CubicBezier, type DirectionMode, type MaskShape,
+} from '@/lib/blur-utils';
+import {
+  buildExportCode, getPrecisionSavings, hasPrecisionSavings, EXPORT_FILENAMES, type ExportFormat, type PrecisionSavings,
+} from '@/lib/blur-export';
+import { buildPermalink, decodePermalink } from '@/lib/permalink';
+import {
+  buildAnimationCss, buildScrollCss, DEFAULT_SCROLL_TIMELINE, TIMING_FUNCTIONS, VIEW_RANGES,
+  type BlurAnimation, type ScrollTimeline, type TimingFunction,
+} from '@/lib/blur-animation';
+import { bakeProgressiveBlur, type ImageFormat } from '@/lib/bake-image';
+import { checkLegibility, DEFAULT_TEXT_SAMPLE, TEXT_SAMPLE_WEIGHT, type LegibilityReport, type TextSample } from '@/lib/legibility';
+import { useHistory } from '@/lib/use-history';
+import { copyToClipboard } from '@/lib/clipboard';
+import { saveImageToDB, loadImageFromDB, deleteImageFromDB, listPresetsFromDB, type SavedPreset } from '@/lib/db';
 
 
-type BlurState = {
-  direction: string;
-  height: number;
-  precision: number;
-  blur: number;
-  easingType: string;
-  preset: string;
-  reverse: boolean;
-};
 
+const SPRING = { type: 'spring', bounce: 0.4, duration: 0.6 } as const;
 
+// History saved before newer settings existed picks up their defaults
+const reviveBlurState = (state: BlurState): BlurState => ({ ...DEFAULT_BLUR_STATE, ...state });
 
-const SPRING = { type: 'spring', bounce: 0.4, duration: 0.6 } as const;
+const SHAPES = [
+  { id: 'linear'     as const, label: 'Linear'     },
+  { id: 'radial'     as const, label: 'Radial'     },
+  { id: 'elliptical' as const, label: 'Elliptical' },
+];
 
+// Clockwise from top; `angle` is the equivalent used when switching to angle mode
 const DIRECTIONS = [
-  { id: 'to top',    icon: IconArrowUp,    label: 'Up'    },
-  { id: 'to bottom', icon: IconArrowDown,  label: 'Down'  },
-  { id: 'to right',  icon: IconArrowRight, label: 'Right' },
-  { id: 'to left',   icon: IconArrowLeft,  label: 'Left'  },
+  { id: 'to top',          icon: IconArrowUp,        label: 'Up',         angle: 0   },
+  { id: 'to top right',    icon: IconArrowUpRight,   label: 'Up right',   angle: 45  },
+  { id: 'to right',        icon: IconArrowRight,     label: 'Right',      angle: 90  },
+  { id: 'to bottom right', icon: IconArrowDownRight, label: 'Down right', angle: 135 },
+  { id: 'to bottom',       icon: IconArrowDown,      label: 'Down',       angle: 180 },
+  { id: 'to bottom left',  icon: IconArrowDownLeft,  label: 'Down left',  angle: 225 },
+  { id: 'to left',         icon: IconArrowLeft,      label: 'Left',       angle: 270 },
+  { id: 'to top left',     icon: IconArrowUpLeft,    label: 'Up left',    angle: 315 },
 ] as const;
 
+const DIRECTION_MODES = [
+  { id: 'keyword' as const, label: 'Keyword' },
+  { id: 'angle'   as const, label: 'Angle'   },
+];
+
 const EASING_TYPES = [
   { id: 'in',     label: 'In',     path: 'M4 20 Q 12 20 20 4'     },
   { id: 'out',    label: 'Out',    path: 'M4 20 Q 4 4 20 4'        },
   { id: 'in-out', label: 'In Out', path: 'M4 20 C 12 20 12 4 20 4' },
 ] as const;
 
-const PRESETS = ['linear', 'sine', 'quad', 'cubic', 'quart', 'quint', 'expo', 'circ'] as const;
+const PRESETS = ['linear', 'sine', 'quad', 'cubic', 'quart', 'quint', 'expo', 'circ', 'custom'] as const;
 type Preset = typeof PRESETS[number];
 
 const PRESET_PATHS: Record<Preset, React.ReactNode> = {
@@ -60,27 +101,51 @@ const PRESET_PATHS: Record<Preset, React.ReactNode> = {
   quint:  <path d="M4 20 C 19 20 20 8 20 4" />,
   expo:   <path d="M4 20 L 16 20 L 20 4" />,
   circ:   <path d="M4 20 A 16 16 0 0 0 20 4" />,
+  custom: <><path d="M4 20 C 14 20 10 4 20 4" /><circle cx="14" cy="20" r="1.5" /><circle cx="10" cy="4" r="1.5" /></>,
 };
 
-const DEFAULT_STATE: BlurState = {
-  direction:  'to top',
-  height:     50,
-  precision:  6,
-  blur:       15,
-  easingType: 'in',
-  preset:     'expo',
-  reverse:    false,
-};
 
-function copyViaExecCommand(text: string) {
-  const ta = document.createElement('textarea');
-  ta.value = text;
-  ta.style.cssText = 'position:fixed;top:0;left:0;opacity:0;pointer-events:none';
-  document.body.appendChild(ta);
-  ta.focus();
-  ta.select();
-  try { document.execCommand('copy'); } catch (_) { /* silent */ }
-  document.body.removeChild(ta);
+const EXPORT_OPTIONS: { value: ExportFormat; label: string; desc: string; Logo: React.ComponentType<React.SVGProps<SVGSVGElement>> }[] = [
+  { value: 'css',         label: 'HTML / CSS',   desc: 'Standard CSS mask-image',         Logo: HTML5       },
+  { value: 'tailwind',    label: 'Tailwind',     desc: 'Arbitrary-property classes',      Logo: TailwindCSS },
+  { value: 'tailwind-v4', label: 'Tailwind v4',  desc: '@utility per saved preset',       Logo: TailwindCSS },
+  { value: 'animation',   label: 'Animation',    desc: '@keyframes with @property',       Logo: HTML5       },
+  { value: 'scroll',      label: 'Scroll',       desc: 'animation-timeline: scroll()',    Logo: HTML5       },
+  { value: 'react',       label: 'React',        desc: 'Typed .tsx component',            Logo: ReactJS     },
+  { value: 'vue',         label: 'Vue',          desc: 'SFC with scoped styles',          Logo: Vue         },
+  { value: 'svelte',      label: 'Svelte',       desc: 'Component with scoped CSS',       Logo: Svelte      },
+  { value: 'svg',         label: 'SVG fallback', desc: 'feGaussianBlur for old webviews', Logo: SVGLogo     },
+];
+
+// Either end of an animation can be one of these or a saved preset
+const ANIMATION_SOURCES = [
+  { value: 'none',    label: 'No blur'          },
+  { value: 'current', label: 'Current settings' },
+];
+
+const TIMELINE_SOURCES = [
+  { value: 'scroll' as const, label: 'Page scroll — scroll()'    },
+  { value: 'view'   as const, label: 'Element in view — view()' },
+];
+
+// Placeholder paragraphs for the scroll-driven preview, as line widths in %
+const MOCK_PARAGRAPHS = [[94, 88, 91, 62], [90, 84, 95, 78, 40], [92, 86, 70]];
+
+const IMAGE_FORMATS: { id: ImageFormat; label: string }[] = [
+  { id: 'png',  label: 'PNG'  },
+  { id: 'jpeg', label: 'JPEG' },
+  { id: 'webp', label: 'WebP' },
+];
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
 }
 
 
@@ -89,16 +154,32 @@ export default function BlurGenerator() {
   const { theme, setTheme, resolvedTheme } = useTheme();
 
   // Blur state
-  const [direction,  setDirection]  = useState(DEFAULT_STATE.direction);
-  const [height,     setHeight]     = useState(DEFAULT_STATE.height);
-  const [precision,  setPrecision]  = useState(DEFAULT_STATE.precision);
-  const [blur,       setBlur]       = useState(DEFAULT_STATE.blur);
-  const [easingType, setEasingType] = useState(DEFAULT_STATE.easingType);
-  const [preset,     setPreset]     = useState<Preset>(DEFAULT_STATE.preset as Preset);
-  const [reverse,    setReverse]    = useState(DEFAULT_STATE.reverse);
+  const [shape,      setShape]      = useState<MaskShape>(DEFAULT_BLUR_STATE.shape);
+  const [directionMode, setDirectionMode] = useState<DirectionMode>(DEFAULT_BLUR_STATE.directionMode);
+  const [direction,  setDirection]  = useState(DEFAULT_BLUR_STATE.direction);
+  const [angle,      setAngle]      = useState(DEFAULT_BLUR_STATE.angle);
+  const [centerX,    setCenterX]    = useState(DEFAULT_BLUR_STATE.centerX);
+  const [centerY,    setCenterY]    = useState(DEFAULT_BLUR_STATE.centerY);
+  const [radius,     setRadius]     = useState(DEFAULT_BLUR_STATE.radius);
+  const [height,     setHeight]     = useState(DEFAULT_BLUR_STATE.height);
+  const [precision,  setPrecision]  = useState(DEFAULT_BLUR_STATE.precision);
+  const [autoPrecision, setAutoPrecision] = useState(DEFAULT_BLUR_STATE.autoPrecision);
+  const [tolerance,  setTolerance]  = useState(DEFAULT_BLUR_STATE.tolerance);
+  const [blur,       setBlur]       = useState(DEFAULT_BLUR_STATE.blur);
+  const [easingType, setEasingType] = useState(DEFAULT_BLUR_STATE.easingType);
+  const [preset,     setPreset]     = useState<Preset>(DEFAULT_BLUR_STATE.preset as Preset);
+  const [bezier,     setBezier]     = useState<CubicBezier>(DEFAULT_BLUR_STATE.bezier);
+  const [reverse,    setReverse]    = useState(DEFAULT_BLUR_STATE.reverse);
+  const [layered,    setLayered]    = useState(DEFAULT_BLUR_STATE.layered);
+  const [layerCount, setLayerCount] = useState(DEFAULT_BLUR_STATE.layerCount);
+  const [multiEdge,  setMultiEdge]  = useState(DEFAULT_BLUR_STATE.multiEdge);
+  const [edges,      setEdges]      = useState(DEFAULT_BLUR_STATE.edges);
+  const [tint,       setTint]       = useState(DEFAULT_BLUR_STATE.tint);
+  const [filters,    setFilters]    = useState(DEFAULT_BLUR_STATE.filters);
+  const [manualStops, setManualStops] = useState(DEFAULT_BLUR_STATE.manualStops);
 
   // UI state
-  const [exportFormat,   setExportFormat]   = useState<'css' | 'tailwind'>('css');
+  const [exportFormat,   setExportFormat]   = useState<ExportFormat>('css');
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [customImage,    setCustomImage]    = useState<string | null>(null);
   const [isCopied,       setIsCopied]       = useState(false);
@@ -107,10 +188,27 @@ export default function BlurGenerator() {
   const [isSidebarOpen,  setIsSidebarOpen]  = useState(true);
   const [imageLoaded,    setImageLoaded]    = useState(false);
   const [uploadCount,    setUploadCount]    = useState(0);
+  const [savedPresets,   setSavedPresets]   = useState<SavedPreset[]>([]);
+  const [imageFormat,    setImageFormat]    = useState<ImageFormat>('png');
+  const [imageQuality,   setImageQuality]   = useState(92);
+  const [isBaking,       setIsBaking]       = useState(false);
+  const [animate,        setAnimate]        = useState(false);
+  const [animationFrom,  setAnimationFrom]  = useState('none');
+  const [animationTo,    setAnimationTo]    = useState('current');
+  const [duration,       setDuration]       = useState(600);
+  const [timing,         setTiming]         = useState<TimingFunction>('ease-out');
+  const [replayCount,    setReplayCount]    = useState(0);
+  const [scrollMode,     setScrollMode]     = useState(false);
+  const [scrollTimeline, setScrollTimeline] = useState<ScrollTimeline>(DEFAULT_SCROLL_TIMELINE);
+  const [textSample,     setTextSample]     = useState<TextSample>(DEFAULT_TEXT_SAMPLE);
+  const [legibility,     setLegibility]     = useState<LegibilityReport | null>(null);
+  const [precisionSavings, setPrecisionSavings] = useState<PrecisionSavings | null>(null);
+  const [isImportOpen,   setIsImportOpen]   = useState(false);
 
   const dropdownRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const reverseId = useId();
+  const desktopPreviewRef = useRef<HTMLElement>(null);
+  const mobilePreviewRef  = useRef<HTMLElement>(null);
 
   // Close dropdown when clicking/touching outside — only needed on mobile
   // (desktop uses the fixed overlay approach which doesn't work inside a CSS-transformed element)
@@ -130,72 +228,60 @@ export default function BlurGenerator() {
   }, [isDropdownOpen, isMobile]);
 
 
+  // Keeps the Layered toggle as set; `isLayered` drops it for multi-edge and hand-edited stops where it's used
   const currentState = useMemo<BlurState>(() => ({
-    direction, height, precision, blur, easingType, preset, reverse,
-  }), [direction, height, precision, blur, easingType, preset, reverse]);
-
-  const [history,      setHistory]      = useState<BlurState[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
-  const isUndoing = useRef(false);
-
-  useEffect(() => {
-    if (history.length === 0) {
-      setHistory([currentState]);
-      setHistoryIndex(0);
-      return;
-    }
-    if (isUndoing.current) {
-      isUndoing.current = false;
-      return;
-    }
-    const timer = setTimeout(() => {
-      setHistory(prev => {
-        const next = prev.slice(0, historyIndex + 1);
-        const last = next[next.length - 1];
-        if (JSON.stringify(last) !== JSON.stringify(currentState)) {
-          next.push(currentState);
-          setHistoryIndex(next.length - 1);
-        }
-        return next;
-      });
-    }, 300);
-    return () => clearTimeout(timer);
-  }, [currentState, history.length, historyIndex]);
+    shape, directionMode, direction, angle, centerX, centerY, radius,
+    height, precision, autoPrecision, tolerance, blur, easingType, preset, bezier, reverse,
+    layered, layerCount, multiEdge, edges, tint, filters, manualStops,
+  }), [shape, directionMode, direction, angle, centerX, centerY, radius,
+    height, precision, autoPrecision, tolerance, blur, easingType, preset, bezier, reverse, layered, layerCount, multiEdge, edges,
+    tint, filters, manualStops]);
 
   const applyState = useCallback((state: BlurState) => {
+    setShape(state.shape);
+    setDirectionMode(state.directionMode);
     setDirection(state.direction);
+    setAngle(state.angle);
+    setCenterX(state.centerX);
+    setCenterY(state.centerY);
+    setRadius(state.radius);
     setHeight(state.height);
     setPrecision(state.precision);
+    setAutoPrecision(state.autoPrecision);
+    setTolerance(state.tolerance);
     setBlur(state.blur);
     setEasingType(state.easingType);
     setPreset(state.preset as Preset);
+    setBezier(state.bezier);
     setReverse(state.reverse);
+    setLayered(state.layered);
+    setLayerCount(state.layerCount);
+    setMultiEdge(state.multiEdge);
+    setEdges(state.edges);
+    setTint(state.tint);
+    setFilters(state.filters);
+    setManualStops(state.manualStops);
   }, []);
 
-  const undo = useCallback(() => {
-    if (historyIndex > 0) {
-      isUndoing.current = true;
-      const idx = historyIndex - 1;
-      setHistoryIndex(idx);
-      applyState(history[idx]);
-    }
-  }, [historyIndex, history, applyState]);
-
-  const redo = useCallback(() => {
-    if (historyIndex < history.length - 1) {
-      isUndoing.current = true;
-      const idx = historyIndex + 1;
-      setHistoryIndex(idx);
-      applyState(history[idx]);
-    }
-  }, [historyIndex, history, applyState]);
-
-  
+  const history = useHistory({ tool: 'blur', state: currentState, apply: applyState, revive: reviveBlurState });
 
   useEffect(() => {
     setMounted(true);
     loadImageFromDB().then(img => { if (img) setCustomImage(img); });
-  }, []);
+    listPresetsFromDB().then(setSavedPresets).catch(() => setSavedPresets([]));
+
+    // Hydrate from a shared permalink, then drop the query so the URL can't go stale
+    const shared = decodePermalink(window.location.search);
+    if (!shared) return;
+    if (shared.state) applyState(shared.state);
+    if (shared.issues.length > 0) {
+      sileo.warning({
+        title:       shared.state ? 'Some link settings were adjusted' : 'Link could not be opened',
+        description: shared.issues.join(' · '),
+      });
+    }
+    window.history.replaceState(null, '', window.location.pathname);
+  }, [applyState]);
 
   // Responsive sidebar
   useEffect(() => {
@@ -215,44 +301,106 @@ export default function BlurGenerator() {
   }, [customImage, photoSeed]);
 
 
-  const maskImage = useMemo(() => {
-    const stops: string[] = [];
-    for (let i = 0; i <= precision; i++) {
-      const t       = i / precision;
-      const easedT  = getEasing(preset, easingType, t);
-      const opacity = reverse ? easedT : 1 - easedT;
-      const pos     = (i / precision) * height;
-      stops.push(`rgba(0, 0, 0, ${opacity.toFixed(3)}) ${pos.toFixed(1)}%`);
-    }
-    if (height < 100) stops.push(`rgba(0, 0, 0, ${reverse ? 1 : 0}) 100%`);
-    return `linear-gradient(${direction}, ${stops.join(', ')})`;
-  }, [direction, height, precision, easingType, preset, reverse]);
+  const maskImage = useMemo(() => buildMaskImage(currentState), [currentState]);
+  const maskStops = useMemo(() => getMaskStops(currentState), [currentState]);
+  const tintImage = useMemo(() => buildTintImage(currentState), [currentState]);
+  const blurLayers = useMemo(() => (isLayered(currentState) ? getBlurLayers(currentState) : []), [currentState]);
+
+  const animation = useMemo<BlurAnimation>(() => {
+    const resolve = (source: string): BlurState => {
+      if (source === 'none') return { ...currentState, blur: 0, filters: DEFAULT_BLUR_STATE.filters };
+      return savedPresets.find(p => p.id === source)?.state ?? currentState;
+    };
+    return { from: resolve(animationFrom), to: resolve(animationTo), duration, timing };
+  }, [currentState, savedPresets, animationFrom, animationTo, duration, timing]);
+  const animationCss = useMemo(() => buildAnimationCss(animation, 'smooth-blur-preview'), [animation]);
+  const scrollCss = useMemo(
+    () => buildScrollCss(currentState, scrollTimeline, 'smooth-blur-scroll-preview'),
+    [currentState, scrollTimeline],
+  );
+  const animationSources = useMemo(
+    () => [...ANIMATION_SOURCES, ...savedPresets.map(p => ({ value: p.id, label: p.name }))],
+    [savedPresets],
+  );
 
 
   const handleCopy = useCallback(() => {
-    const code = exportFormat === 'css'
-      ? `.smooth-blur {\n  backdrop-filter: blur(${blur}px);\n  -webkit-backdrop-filter: blur(${blur}px);\n  mask-image: ${maskImage};\n  -webkit-mask-image: ${maskImage};\n}`
-      : `<div className="absolute inset-0 backdrop-blur-[${blur}px]" style={{ maskImage: '${maskImage}', WebkitMaskImage: '${maskImage}' }}></div>`;
+    const code = buildExportCode(exportFormat, currentState, { variants: savedPresets, animation, scroll: scrollTimeline });
 
-    const finish = () => {
+    copyToClipboard(code).then(() => {
       setIsCopied(true);
       setTimeout(() => setIsCopied(false), 2000);
       sileo.success({
-        title:       exportFormat === 'css' ? 'HTML / CSS copied' : 'Tailwind copied',
+        title:       `${EXPORT_OPTIONS.find(o => o.value === exportFormat)!.label} copied`,
         description: 'Paste it directly into your project',
       });
-    };
-
-    if (navigator.clipboard && typeof navigator.clipboard.writeText === 'function') {
-      navigator.clipboard.writeText(code).then(finish).catch(() => {
-        copyViaExecCommand(code);
-        finish();
+    });
+  }, [exportFormat, currentState, savedPresets, animation, scrollTimeline]);
+
+  const handleDownload = useCallback((format: ExportFormat) => {
+    const filename = EXPORT_FILENAMES[format];
+    if (!filename) return;
+    downloadBlob(new Blob([buildExportCode(format, currentState)], { type: 'text/plain' }), filename);
+    sileo.success({ title: `${filename} downloaded`, description: 'Drop it into your components folder' });
+  }, [currentState]);
+
+  const handleCopyLink = useCallback(() => {
+    copyToClipboard(buildPermalink(currentState, window.location)).then(() => {
+      sileo.success({
+        title:       'Link copied',
+        description: 'Anyone opening it gets this exact configuration',
       });
-    } else {
-      copyViaExecCommand(code);
-      finish();
-    }
-  }, [exportFormat, blur, maskImage]);
+    });
+  }, [currentState]);
+
+  const imageSrc = customImage ?? `https://picsum.photos/800/1000?random=${photoSeed}`;
+
+  const handleDownloadImage = useCallback(() => {
+    const preview = (isMobile ? mobilePreviewRef : desktopPreviewRef).current;
+    if (!preview) return;
+    const ext = imageFormat === 'jpeg' ? 'jpg' : imageFormat;
+    setIsBaking(true);
+    bakeProgressiveBlur(imageSrc, currentState, {
+      format:        imageFormat,
+      quality:       imageQuality / 100,
+      displayWidth:  preview.clientWidth,
+      displayHeight: preview.clientHeight,
+    })
+      .then(blob => {
+        downloadBlob(blob, `smooth-blur.${ext}`);
+        sileo.success({ title: 'Image downloaded', description: `Saved as smooth-blur.${ext}` });
+      })
+      .catch(() => sileo.error({ title: 'Could not render image', description: 'The image failed to load or encode' }))
+      .finally(() => setIsBaking(false));
+  }, [isMobile, imageSrc, currentState, imageFormat, imageQuality]);
+
+  // Sizing the savings builds the export twice, so it waits for the settings to settle and only
+  // runs while the footer that shows it is on screen
+  useEffect(() => {
+    if (!hasPrecisionSavings(currentState) || (isMobile && !isSidebarOpen)) return;
+    const timer = setTimeout(() => {
+      setPrecisionSavings(getPrecisionSavings(exportFormat, currentState, { variants: savedPresets, scroll: scrollTimeline }));
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [exportFormat, currentState, savedPresets, scrollTimeline, isMobile, isSidebarOpen]);
+
+  // Re-measures the sample text once the settings stop changing; rendering the blur and searching
+  // for fixes takes a few canvas passes, too slow to run on every slider tick
+  useEffect(() => {
+    if (!textSample.enabled || !imageLoaded || scrollMode) return;
+    const preview = (isMobile ? mobilePreviewRef : desktopPreviewRef).current;
+    if (!preview) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      checkLegibility(imageSrc, currentState, textSample, { displayWidth: preview.clientWidth, displayHeight: preview.clientHeight })
+        .then(report => { if (!cancelled) setLegibility(report); })
+        .catch(() => { if (!cancelled) setLegibility(null); });
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [textSample, imageLoaded, scrollMode, isMobile, imageSrc, currentState]);
 
   const handleRandomImage = useCallback(() => {
     setImageLoaded(false);
@@ -262,7 +410,31 @@ export default function BlurGenerator() {
     setPhotoSeed(s => s + 1);
   }, []);
 
-  const resetBlur = useCallback(() => applyState(DEFAULT_STATE), [applyState]);
+  const resetBlur = useCallback(() => applyState(DEFAULT_BLUR_STATE), [applyState]);
+
+  // Carry the current keyword over as a starting angle so switching modes doesn't jump
+  const changeDirectionMode = useCallback((mode: DirectionMode) => {
+    if (mode === 'angle' && directionMode === 'keyword') {
+      const match = DIRECTIONS.find(d => d.id === direction);
+      if (match) setAngle(match.angle);
+    }
+    setDirectionMode(mode);
+  }, [directionMode, direction]);
+
+  // The preview can only play one of the two at a time
+  const toggleAnimate = useCallback((on: boolean) => {
+    setAnimate(on);
+    if (on) setScrollMode(false);
+  }, []);
+
+  const toggleScrollMode = useCallback((on: boolean) => {
+    setScrollMode(on);
+    if (on) setAnimate(false);
+  }, []);
+
+  const changeTimelineSource = useCallback((source: ScrollTimeline['source']) => {
+    setScrollTimeline(prev => ({ ...prev, source, start: 0, end: source === 'scroll' ? 200 : 100 }));
+  }, []);
 
   const handleImageUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -308,16 +480,42 @@ export default function BlurGenerator() {
   if (!mounted) return null;
 
   const isDark = resolvedTheme === 'dark';
+  const activeExport = EXPORT_OPTIONS.find(o => o.value === exportFormat)!;
 
 
-  const blurOverlay = (
+  // The preview plays the exported CSS itself; remounting on replay restarts the animation
+  const blurOverlay = animate ? (
+    <>
+      <style>{animationCss}</style>
+      <div key={replayCount} className="smooth-blur-preview absolute -inset-px pointer-events-none" />
+      {animation.to.tint.enabled && (
+        <div key={`tint-${replayCount}`} className="smooth-blur-preview-tint absolute -inset-px pointer-events-none" />
+      )}
+    </>
+  ) : isLayered(currentState) ? (
+    <div className="absolute -inset-px pointer-events-none">
+      {blurLayers.map((layer, i) => (
+        <div
+          key={i}
+          className="absolute inset-0"
+          style={{
+            backdropFilter:       buildBackdropFilter(`${layer.blur}px`, filters),
+            WebkitBackdropFilter: buildBackdropFilter(`${layer.blur}px`, filters),
+            maskImage:            layer.maskImage,
+            WebkitMaskImage:      layer.maskImage,
+          }}
+        />
+      ))}
+    </div>
+  ) : (
     <div
       className="absolute -inset-px pointer-events-none"
       style={{
-        backdropFilter:       `blur(${blur}px)`,
-        WebkitBackdropFilter: `blur(${blur}px)`,
+        backdropFilter:       buildBackdropFilter(`${blur}px`, filters),
+        WebkitBackdropFilter: buildBackdropFilter(`${blur}px`, filters),
         maskImage:            maskImage,
         WebkitMaskImage:      maskImage,
+        ...(multiEdge && { maskComposite: 'add', WebkitMaskComposite: 'source-over' }),
       }}
     />
   );
@@ -355,7 +553,7 @@ export default function BlurGenerator() {
           />
         ) : (
           <Image
-            src={`https://picsum.photos/800/1000?random=${photoSeed}`}
+            src={imageSrc}
             alt="Blur effect preview"
             fill
             sizes="(max-width: 768px) 100vw, 400px"
@@ -368,6 +566,61 @@ export default function BlurGenerator() {
     </AnimatePresence>
   );
 
+  // Scroll-driven mode swaps the still preview for a scrollable page mock: a sticky header blurs
+  // what scrolls under it, or with view() the photo card blurs as it crosses the viewport
+  const scrollPreview = (
+    <div className="absolute inset-0 overflow-y-auto overscroll-contain bg-background">
+      <style>{scrollCss}</style>
+      <div className="sticky top-0 z-10 h-20 flex items-center px-5">
+        {scrollTimeline.source === 'scroll' && (
+          <>
+            <div className="smooth-blur-scroll-preview absolute -inset-px pointer-events-none" />
+            {tint.enabled && <div className="smooth-blur-scroll-preview-tint absolute -inset-px pointer-events-none" />}
+          </>
+        )}
+        <span className="relative text-sm font-bold text-foreground drop-shadow-sm">Scroll me</span>
+      </div>
+      <div className="-mt-20 flex flex-col gap-6 pb-16">
+        <div className="relative aspect-[4/5] overflow-hidden">
+          {previewImage}
+          {scrollTimeline.source === 'view' && (
+            <>
+              <div className="smooth-blur-scroll-preview absolute -inset-px pointer-events-none" />
+              {tint.enabled && <div className="smooth-blur-scroll-preview-tint absolute -inset-px pointer-events-none" />}
+            </>
+          )}
+        </div>
+        {MOCK_PARAGRAPHS.map((lines, i) => (
+          <div key={i} className="flex flex-col gap-2.5 px-5" aria-hidden="true">
+            {lines.map((width, j) => (
+              <div key={j} className="h-2 rounded-full bg-muted-foreground/20" style={{ width: `${width}%` }} />
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const previewContent = scrollMode ? scrollPreview : (
+    <>
+      {previewImage}
+      {blurOverlay}
+      {/* Sibling of the overlay so the blur's mask doesn't cut into it */}
+      {!animate && tintImage && (
+        <div className="absolute -inset-px pointer-events-none" style={{ backgroundImage: tintImage }} />
+      )}
+      {textSample.enabled && (
+        <div
+          className="absolute z-10 -translate-x-1/2 -translate-y-1/2 whitespace-nowrap leading-[1.2] pointer-events-none"
+          style={{ left: `${textSample.x}%`, top: `${textSample.y}%`, color: textSample.color, fontSize: textSample.size, fontWeight: TEXT_SAMPLE_WEIGHT }}
+        >
+          {textSample.text}
+        </div>
+      )}
+      {caption}
+    </>
+  );
+
   const uploadControls = (
     <>
       <input
@@ -394,10 +647,10 @@ export default function BlurGenerator() {
 
   const toolbar = (showClose: boolean) => (
     <div role="toolbar" aria-label="Actions" className="flex gap-1">
-      <Button variant="ghost" size="icon-xs" onClick={undo} disabled={historyIndex <= 0} aria-label="Undo" className="text-muted-foreground hover:text-foreground">
+      <Button variant="ghost" size="icon-xs" onClick={history.undo} disabled={!history.canUndo} aria-label="Undo" className="text-muted-foreground hover:text-foreground">
         <IconArrowBackUp size={14} stroke={2} />
       </Button>
-      <Button variant="ghost" size="icon-xs" onClick={redo} disabled={historyIndex >= history.length - 1} aria-label="Redo" className="text-muted-foreground hover:text-foreground">
+      <Button variant="ghost" size="icon-xs" onClick={history.redo} disabled={!history.canRedo} aria-label="Redo" className="text-muted-foreground hover:text-foreground">
         <IconArrowForwardUp size={14} stroke={2} />
       </Button>
       <Button variant="ghost" size="icon-xs" onClick={resetBlur} aria-label="Reset settings" className="text-muted-foreground hover:text-foreground">
@@ -419,96 +672,307 @@ export default function BlurGenerator() {
       <fieldset className="space-y-1 border-none p-0 m-0">
         <legend className="sr-only">Blur parameters</legend>
 
-        {/* Direction */}
-        <div className="flex items-center justify-between py-1.5">
-          <span className="text-xs font-medium text-muted-foreground">Direction</span>
-          <div role="radiogroup" aria-label="Blur direction" className="flex gap-1 p-1 rounded-lg shadow-inner bg-muted">
-            {DIRECTIONS.map(dir => (
-              <button
-                key={dir.id}
-                role="radio"
-                aria-checked={direction === dir.id}
-                aria-label={dir.label}
-                onClick={() => setDirection(dir.id)}
-                className={`relative w-7 h-7 rounded-md flex items-center justify-center transition-colors z-10 ${direction === dir.id ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
-              >
-                {direction === dir.id && (
-                  <motion.div layoutId="active-direction" className="absolute inset-0 rounded-md bg-background shadow-sm" transition={SPRING} />
+        {/* Multi-edge mode replaces the single gradient with one per enabled edge */}
+        <ToggleRow label="Multiple edges" checked={multiEdge} onChange={setMultiEdge} />
+
+        {multiEdge ? (
+          <EdgesPanel value={edges} onChange={setEdges} />
+        ) : (
+          <>
+            {/* Shape */}
+            <div className="flex items-center justify-between py-1.5">
+              <span className="text-xs font-medium text-muted-foreground">Shape</span>
+              <div role="radiogroup" aria-label="Mask shape" className="flex gap-1 p-1 rounded-lg shadow-inner bg-muted">
+                {SHAPES.map(opt => (
+                  <button
+                    key={opt.id}
+                    role="radio"
+                    aria-checked={shape === opt.id}
+                    onClick={() => setShape(opt.id)}
+                    className={`relative px-2.5 h-7 text-[11px] font-medium rounded-md flex items-center justify-center transition-colors z-10 ${shape === opt.id ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
+                  >
+                    {shape === opt.id && (
+                      <motion.div layoutId="active-shape" className="absolute inset-0 rounded-md bg-background shadow-sm" transition={SPRING} />
+                    )}
+                    <span className="relative z-20">{opt.label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {shape === 'linear' ? (
+              <>
+                {/* Direction */}
+                <div className="flex items-center justify-between py-1.5">
+                  <span className="text-xs font-medium text-muted-foreground">Direction</span>
+                  <div role="radiogroup" aria-label="Direction mode" className="flex gap-1 p-1 rounded-lg shadow-inner bg-muted">
+                    {DIRECTION_MODES.map(mode => (
+                      <button
+                        key={mode.id}
+                        role="radio"
+                        aria-checked={directionMode === mode.id}
+                        onClick={() => changeDirectionMode(mode.id)}
+                        className={`relative px-2.5 h-7 text-[11px] font-medium rounded-md flex items-center justify-center transition-colors z-10 ${directionMode === mode.id ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
+                      >
+                        {directionMode === mode.id && (
+                          <motion.div layoutId="active-direction-mode" className="absolute inset-0 rounded-md bg-background shadow-sm" transition={SPRING} />
+                        )}
+                        <span className="relative z-20">{mode.label}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {directionMode === 'keyword' ? (
+                  <div role="radiogroup" aria-label="Blur direction" className="flex gap-1 p-1 mb-1.5 rounded-lg shadow-inner bg-muted">
+                    {DIRECTIONS.map(dir => (
+                      <button
+                        key={dir.id}
+                        role="radio"
+                        aria-checked={direction === dir.id}
+                        aria-label={dir.label}
+                        onClick={() => setDirection(dir.id)}
+                        className={`relative flex-1 h-7 rounded-md flex items-center justify-center transition-colors z-10 ${direction === dir.id ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
+                      >
+                        {direction === dir.id && (
+                          <motion.div layoutId="active-direction" className="absolute inset-0 rounded-md bg-background shadow-sm" transition={SPRING} />
+                        )}
+                        <span className="relative z-20">
+                          <dir.icon size={14} stroke={2} aria-hidden="true" />
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="pb-1.5">
+                    <AngleDial value={angle} onChange={setAngle} />
+                  </div>
                 )}
-                <span className="relative z-20">
-                  <dir.icon size={14} stroke={2} aria-hidden="true" />
-                </span>
-              </button>
-            ))}
-          </div>
+              </>
+            ) : (
+              <>
+                <SliderRow label="Center X" value={centerX} min={0}  max={100} step={1} onChange={setCenterX} unit="%" />
+                <SliderRow label="Center Y" value={centerY} min={0}  max={100} step={1} onChange={setCenterY} unit="%" />
+                <SliderRow label="Radius"   value={radius}  min={10} max={200} step={1} onChange={setRadius}  unit="%" />
+              </>
+            )}
+
+            {!manualStops && (
+              <SliderRow label="Height"    value={height}    min={0}  max={100} step={1}  onChange={setHeight}    unit="%" />
+            )}
+          </>
+        )}
+        {(multiEdge || !manualStops) && (
+          <>
+            <ToggleRow label="Auto precision" checked={autoPrecision} onChange={setAutoPrecision} />
+            {autoPrecision ? (
+              <SliderRow label="Max error" value={tolerance} min={1}  max={10}  step={1}  onChange={setTolerance}  unit="%" />
+            ) : (
+              <SliderRow label="Precision" value={precision} min={2}  max={20}  step={1}  onChange={setPrecision} />
+            )}
+          </>
+        )}
+        <SliderRow label="Blur"      value={blur}      min={0}  max={50}  step={1}  onChange={setBlur}      unit="px" />
+
+        {/* Layered mode stacks several backdrop-filter layers with eased radii */}
+        {!multiEdge && !manualStops && (
+          <>
+            <ToggleRow label="Layered blur" checked={layered} onChange={setLayered} />
+            {layered && (
+              <SliderRow label="Layers" value={layerCount} min={2} max={10} step={1} onChange={setLayerCount} />
+            )}
+          </>
+        )}
+      </fieldset>
+
+      {!multiEdge && (
+        <div className="pt-4 border-t border-border">
+          {/* Stop graph, editable once switched to manual stops */}
+          <fieldset className="border-none p-0 m-0 mb-4">
+            <legend className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider mb-2">Stops</legend>
+            <StopGraph stops={maskStops} manual={manualStops !== null} onChange={setManualStops} />
+          </fieldset>
+
+          {!manualStops && (
+            <>
+              {/* Easing type */}
+              <fieldset className="border-none p-0 m-0 mb-4">
+                <legend className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider mb-2">Easing Type</legend>
+                {/* A custom bezier already encodes the whole curve, so in/out doesn't apply */}
+                <div role="radiogroup" aria-label="Easing type" aria-disabled={preset === 'custom'} className={`flex gap-1 p-1 rounded-lg shadow-inner bg-muted transition-opacity ${preset === 'custom' ? 'opacity-50' : ''}`}>
+                  {EASING_TYPES.map(type => (
+                    <button
+                      key={type.id}
+                      role="radio"
+                      aria-checked={easingType === type.id}
+                      disabled={preset === 'custom'}
+                      onClick={() => setEasingType(type.id)}
+                      className={`relative flex-1 py-1.5 text-[11px] font-medium rounded-md flex items-center justify-center transition-colors z-10 disabled:pointer-events-none ${easingType === type.id ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
+                    >
+                      {easingType === type.id && (
+                        <motion.div layoutId="active-easing" className="absolute inset-0 rounded-md bg-background shadow-sm" transition={SPRING} />
+                      )}
+                      <span className="relative z-20 flex items-center">
+                        <svg aria-hidden="true" className="w-3.5 h-3.5 mr-1.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                          <path d={type.path} />
+                        </svg>
+                        {type.label}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </fieldset>
+
+              {/* Presets */}
+              <fieldset className="border-none p-0 m-0 mb-4">
+                <legend className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider mb-2">Presets</legend>
+                <div role="radiogroup" aria-label="Easing preset" className="grid grid-cols-3 gap-1 p-1 rounded-lg shadow-inner bg-muted">
+                  {PRESETS.map(p => (
+                    <button
+                      key={p}
+                      role="radio"
+                      aria-checked={preset === p}
+                      onClick={() => setPreset(p)}
+                      className={`relative py-1.5 text-[11px] font-medium rounded-md flex items-center justify-center transition-colors z-10 ${preset === p ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
+                    >
+                      {preset === p && (
+                        <motion.div layoutId="active-preset" className="absolute inset-0 rounded-md bg-background shadow-sm" transition={SPRING} />
+                      )}
+                      <span className="relative z-20 flex items-center capitalize">
+                        <svg aria-hidden="true" className="w-3 h-3 mr-1.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                          {PRESET_PATHS[p]}
+                        </svg>
+                        {p}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+                {preset === 'custom' && <BezierEditor value={bezier} onChange={setBezier} />}
+              </fieldset>
+
+              {/* Reverse toggle */}
+              <ToggleRow label="Reverse direction" checked={reverse} onChange={setReverse} />
+            </>
+          )}
         </div>
+      )}
 
-        <SliderRow label="Height"    value={height}    min={0}  max={100} step={1}  onChange={setHeight}    unit="%" />
-        <SliderRow label="Precision" value={precision} min={2}  max={20}  step={1}  onChange={setPrecision} />
-        <SliderRow label="Blur"      value={blur}      min={0}  max={50}  step={1}  onChange={setBlur}      unit="px" />
+      <fieldset className="pt-4 border-t border-border p-0 m-0">
+        <legend className="sr-only">Extra filters</legend>
+        <FiltersPanel value={filters} onChange={setFilters} />
       </fieldset>
 
-      <div className="pt-4 border-t border-border">
-        {/* Easing type */}
-        <fieldset className="border-none p-0 m-0 mb-4">
-          <legend className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider mb-2">Easing Type</legend>
-          <div role="radiogroup" aria-label="Easing type" className="flex gap-1 p-1 rounded-lg shadow-inner bg-muted">
-            {EASING_TYPES.map(type => (
-              <button
-                key={type.id}
-                role="radio"
-                aria-checked={easingType === type.id}
-                onClick={() => setEasingType(type.id)}
-                className={`relative flex-1 py-1.5 text-[11px] font-medium rounded-md flex items-center justify-center transition-colors z-10 ${easingType === type.id ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
-              >
-                {easingType === type.id && (
-                  <motion.div layoutId="active-easing" className="absolute inset-0 rounded-md bg-background shadow-sm" transition={SPRING} />
-                )}
-                <span className="relative z-20 flex items-center">
-                  <svg aria-hidden="true" className="w-3.5 h-3.5 mr-1.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                    <path d={type.path} />
-                  </svg>
-                  {type.label}
-                </span>
-              </button>
-            ))}
-          </div>
-        </fieldset>
+      <fieldset className="pt-4 border-t border-border p-0 m-0">
+        <legend className="sr-only">Tint</legend>
+        <TintPanel value={tint} onChange={setTint} />
+      </fieldset>
+
+      <fieldset className="pt-4 border-t border-border p-0 m-0">
+        <legend className="sr-only">Text legibility</legend>
+        <LegibilityPanel
+          value={textSample}
+          onChange={setTextSample}
+          report={legibility}
+          onApplyBlur={setBlur}
+          onApplyTint={setTint}
+        />
+        {textSample.enabled && scrollMode && (
+          <p className="text-[11px] text-muted-foreground mt-1">The check pauses while the scroll-driven preview is on.</p>
+        )}
+      </fieldset>
+
+      <fieldset className="pt-4 border-t border-border p-0 m-0">
+        <legend className="sr-only">Animation</legend>
+        <ToggleRow label="Animate in" checked={animate} onChange={toggleAnimate} />
+        {animate && (
+          <>
+            <SelectRow label="From" value={animationFrom} options={animationSources} onChange={setAnimationFrom} />
+            <SelectRow label="To"   value={animationTo}   options={animationSources} onChange={setAnimationTo} />
+            <SliderRow label="Duration" value={duration} min={100} max={3000} step={50} onChange={setDuration} unit="ms" />
+            <SelectRow label="Timing" value={timing} options={TIMING_FUNCTIONS.map(t => ({ value: t, label: t }))} onChange={setTiming} />
+            {(isLayered(animation.from) || isLayered(animation.to)) && (
+              <p className="text-[11px] text-muted-foreground mt-1">Layered blurs animate as a single masked layer, so the start and end differ from the layered look.</p>
+            )}
+            <Button variant="secondary" size="sm" onClick={() => setReplayCount(c => c + 1)} className="w-full mt-1 text-[11px] font-bold gap-1.5">
+              <IconPlayerPlay size={13} stroke={2} aria-hidden="true" />
+              REPLAY
+            </Button>
+          </>
+        )}
+      </fieldset>
 
-        {/* Presets */}
-        <fieldset className="border-none p-0 m-0 mb-4">
-          <legend className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider mb-2">Presets</legend>
-          <div role="radiogroup" aria-label="Easing preset" className="grid grid-cols-3 gap-1 p-1 rounded-lg shadow-inner bg-muted">
-            {PRESETS.map(p => (
+      <fieldset className="pt-4 border-t border-border p-0 m-0">
+        <legend className="sr-only">Scroll-driven blur</legend>
+        <ToggleRow label="Blur on scroll" checked={scrollMode} onChange={toggleScrollMode} />
+        {scrollMode && (
+          <>
+            <SelectRow label="Timeline" value={scrollTimeline.source} options={TIMELINE_SOURCES} onChange={changeTimelineSource} />
+            {scrollTimeline.source === 'view' && (
+              <SelectRow
+                label="Range"
+                value={scrollTimeline.range}
+                options={VIEW_RANGES.map(r => ({ value: r, label: r }))}
+                onChange={(range) => setScrollTimeline(prev => ({ ...prev, range }))}
+              />
+            )}
+            <SliderRow
+              label="Start"
+              value={scrollTimeline.start}
+              min={0}
+              max={scrollTimeline.source === 'scroll' ? 1000 : 100}
+              step={scrollTimeline.source === 'scroll' ? 10 : 1}
+              onChange={(start) => setScrollTimeline(prev => ({ ...prev, start }))}
+              unit={scrollTimeline.source === 'scroll' ? 'px' : '%'}
+            />
+            <SliderRow
+              label="End"
+              value={scrollTimeline.end}
+              min={0}
+              max={scrollTimeline.source === 'scroll' ? 1000 : 100}
+              step={scrollTimeline.source === 'scroll' ? 10 : 1}
+              onChange={(end) => setScrollTimeline(prev => ({ ...prev, end }))}
+              unit={scrollTimeline.source === 'scroll' ? 'px' : '%'}
+            />
+          </>
+        )}
+      </fieldset>
+
+      <fieldset className="pt-4 border-t border-border p-0 m-0 space-y-1">
+        <legend className="sr-only">Download image</legend>
+        <div className="flex items-center justify-between py-1.5">
+          <span className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider">Download Image</span>
+          <div role="radiogroup" aria-label="Image format" className="flex gap-1 p-1 rounded-lg shadow-inner bg-muted">
+            {IMAGE_FORMATS.map(fmt => (
               <button
-                key={p}
+                key={fmt.id}
                 role="radio"
-                aria-checked={preset === p}
-                onClick={() => setPreset(p)}
-                className={`relative py-1.5 text-[11px] font-medium rounded-md flex items-center justify-center transition-colors z-10 ${preset === p ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
+                aria-checked={imageFormat === fmt.id}
+                onClick={() => setImageFormat(fmt.id)}
+                className={`relative px-2.5 h-7 text-[11px] font-medium rounded-md flex items-center justify-center transition-colors z-10 ${imageFormat === fmt.id ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
               >
-                {preset === p && (
-                  <motion.div layoutId="active-preset" className="absolute inset-0 rounded-md bg-background shadow-sm" transition={SPRING} />
+                {imageFormat === fmt.id && (
+                  <motion.div layoutId="active-image-format" className="absolute inset-0 rounded-md bg-background shadow-sm" transition={SPRING} />
                 )}
-                <span className="relative z-20 flex items-center capitalize">
-                  <svg aria-hidden="true" className="w-3 h-3 mr-1.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                    {PRESET_PATHS[p]}
-                  </svg>
-                  {p}
-                </span>
+                <span className="relative z-20">{fmt.label}</span>
               </button>
             ))}
           </div>
-        </fieldset>
-
-        {/* Reverse toggle */}
-        <div className="flex items-center justify-between py-1">
-          <label htmlFor={reverseId} className="text-xs font-medium text-muted-foreground">Reverse direction</label>
-          <label className="relative inline-flex items-center cursor-pointer">
-            <input id={reverseId} type="checkbox" checked={reverse} onChange={(e) => setReverse(e.target.checked)} className="sr-only peer" />
-            <div className="w-8 h-4 peer-focus-visible:ring-2 peer-focus-visible:ring-ring rounded-full peer peer-checked:after:translate-x-full after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-3 after:w-3 after:transition-all bg-muted-foreground/30 peer-checked:bg-primary" />
-          </label>
         </div>
+        {imageFormat !== 'png' && (
+          <SliderRow label="Quality" value={imageQuality} min={10} max={100} step={1} onChange={setImageQuality} unit="%" />
+        )}
+        <Button variant="secondary" size="sm" onClick={handleDownloadImage} disabled={isBaking || !imageLoaded} className="w-full mt-1 text-[11px] font-bold gap-1.5">
+          <IconDownload size={13} stroke={2} aria-hidden="true" />
+          {isBaking ? 'RENDERING…' : 'DOWNLOAD IMAGE'}
+        </Button>
+      </fieldset>
+
+      <div className="pt-4 border-t border-border">
+        <HistoryPanel entries={history.entries} index={history.index} onJump={history.jump} onClear={history.clear} />
+      </div>
+
+      <div className="pt-4 border-t border-border">
+        <PresetsPanel presets={savedPresets} onPresetsChange={setSavedPresets} currentState={currentState} onApply={applyState} />
       </div>
     </div>
   );
@@ -530,15 +994,18 @@ export default function BlurGenerator() {
           onClick={() => setIsDropdownOpen(prev => !prev)}
           aria-expanded={isDropdownOpen}
           aria-haspopup="listbox"
-          aria-label={`Export format: ${exportFormat === 'css' ? 'HTML / CSS' : 'Tailwind'}`}
+          aria-label={`Export format: ${activeExport.label}`}
           className="mt-1 flex items-center gap-1.5 rounded-md px-2 py-1 -ml-2 text-muted-foreground hover:text-foreground hover:bg-accent/60 transition-colors"
         >
-          {exportFormat === 'css'
-            ? <HTML5 className="w-[13px] h-[13px]" aria-hidden="true" />
-            : <TailwindCSS className="w-[13px] h-[13px]" aria-hidden="true" />}
-          <span className="text-[11px] font-semibold">{exportFormat === 'css' ? 'HTML / CSS' : 'Tailwind'}</span>
+          <activeExport.Logo className="w-[13px] h-[13px]" aria-hidden="true" />
+          <span className="text-[11px] font-semibold">{activeExport.label}</span>
           <IconChevronUp size={11} stroke={2} className={`transition-transform duration-300 ${isDropdownOpen ? '' : 'rotate-180'}`} aria-hidden="true" />
         </button>
+        {precisionSavings && hasPrecisionSavings(currentState) && (
+          <span className="text-[10px] text-muted-foreground">
+            {precisionSavings.stops} stops · {Math.max(0, precisionSavings.bytesSaved).toLocaleString()} bytes saved
+          </span>
+        )}
 
         <AnimatePresence>
           {isDropdownOpen && (
@@ -553,28 +1020,32 @@ export default function BlurGenerator() {
               className="absolute bottom-full left-0 mb-2.5 w-52 rounded-xl shadow-2xl border overflow-hidden z-50 bg-popover border-border"
             >
               <p className="px-3.5 pt-2.5 pb-1 text-[10px] font-semibold text-muted-foreground uppercase tracking-widest">Format</p>
-              {([
-                { value: 'css'      as const, label: 'HTML / CSS', desc: 'Standard CSS mask-image',      logoEl: <HTML5      className="w-4 h-4" aria-hidden="true" /> },
-                { value: 'tailwind' as const, label: 'Tailwind',   desc: 'Inline JSX utility classes',  logoEl: <TailwindCSS className="w-4 h-4" aria-hidden="true" /> },
-              ]).map(opt => {
+              {EXPORT_OPTIONS.map(opt => {
                 const active = exportFormat === opt.value;
+                const filename = EXPORT_FILENAMES[opt.value];
                 return (
-                  <button
-                    key={opt.value}
-                    role="option"
-                    aria-selected={active}
-                    onClick={() => { setExportFormat(opt.value); setIsDropdownOpen(false); }}
-                    className={`w-full text-left px-3.5 py-3 flex items-center gap-3 transition-colors last:mb-1 ${active ? 'bg-accent text-foreground' : 'text-muted-foreground hover:bg-accent/50 hover:text-foreground'}`}
-                  >
-                    <div className={`shrink-0 w-8 h-8 rounded-lg flex items-center justify-center transition-colors ${active ? 'bg-primary text-primary-foreground' : 'bg-muted'}`}>
-                      {opt.logoEl}
-                    </div>
-                    <div className="flex flex-col min-w-0">
-                      <span className="text-xs font-semibold leading-none mb-0.5">{opt.label}</span>
-                      <span className="text-[10px] leading-tight opacity-60">{opt.desc}</span>
-                    </div>
-                    {active && <IconCheck size={14} stroke={2.5} className="ml-auto shrink-0 text-primary" aria-hidden="true" />}
-                  </button>
+                  <div key={opt.value} className={`flex items-center transition-colors last:mb-1 ${active ? 'bg-accent text-foreground' : 'text-muted-foreground hover:bg-accent/50 hover:text-foreground'}`}>
+                    <button
+                      role="option"
+                      aria-selected={active}
+                      onClick={() => { setExportFormat(opt.value); setIsDropdownOpen(false); }}
+                      className="flex-1 min-w-0 text-left px-3.5 py-3 flex items-center gap-3"
+                    >
+                      <div className={`shrink-0 w-8 h-8 rounded-lg flex items-center justify-center transition-colors ${active ? 'bg-primary text-primary-foreground' : 'bg-muted'}`}>
+                        <opt.Logo className="w-4 h-4" aria-hidden="true" />
+                      </div>
+                      <div className="flex flex-col min-w-0">
+                        <span className="text-xs font-semibold leading-none mb-0.5">{opt.label}</span>
+                        <span className="text-[10px] leading-tight opacity-60">{opt.desc}</span>
+                      </div>
+                      {active && <IconCheck size={14} stroke={2.5} className="ml-auto shrink-0 text-primary" aria-hidden="true" />}
+                    </button>
+                    {filename && (
+                      <Button variant="ghost" size="icon-xs" onClick={() => handleDownload(opt.value)} aria-label={`Download ${filename}`} className="mr-2.5 shrink-0 text-muted-foreground hover:text-foreground">
+                        <IconDownload size={13} stroke={2} />
+                      </Button>
+                    )}
+                  </div>
                 );
               })}
             </motion.div>
@@ -582,19 +1053,27 @@ export default function BlurGenerator() {
         </AnimatePresence>
       </div>
 
-      <Button onClick={handleCopy} size="sm" aria-label="Copy code to clipboard" className="min-w-[80px] text-[11px] font-bold overflow-hidden">
-        <AnimatePresence mode="wait" initial={false}>
-          {isCopied ? (
-            <motion.span key="copied" initial={{ clipPath: 'inset(0 100% 0 0)' }} animate={{ clipPath: 'inset(0 0% 0 0)' }} exit={{ clipPath: 'inset(0 0 0 100%)' }} transition={{ duration: 0.25, ease: 'easeInOut' }} className="flex items-center gap-1.5">
-              <IconCheck size={13} stroke={2.5} aria-hidden="true" />COPIED
-            </motion.span>
-          ) : (
-            <motion.span key="copy" initial={{ clipPath: 'inset(0 100% 0 0)' }} animate={{ clipPath: 'inset(0 0% 0 0)' }} exit={{ clipPath: 'inset(0 0 0 100%)' }} transition={{ duration: 0.25, ease: 'easeInOut' }} className="flex items-center gap-1.5">
-              <IconCopy size={13} stroke={2} aria-hidden="true" />COPY
-            </motion.span>
-          )}
-        </AnimatePresence>
-      </Button>
+      <div className="flex items-center gap-1.5">
+        <Button onClick={() => setIsImportOpen(true)} variant="ghost" size="icon-sm" aria-label="Import existing CSS" className="text-muted-foreground hover:text-foreground">
+          <IconFileImport size={14} stroke={2} aria-hidden="true" />
+        </Button>
+        <Button onClick={handleCopyLink} variant="ghost" size="icon-sm" aria-label="Copy link to this configuration" className="text-muted-foreground hover:text-foreground">
+          <IconLink size={14} stroke={2} aria-hidden="true" />
+        </Button>
+        <Button onClick={handleCopy} size="sm" aria-label="Copy code to clipboard" className="min-w-[80px] text-[11px] font-bold overflow-hidden">
+          <AnimatePresence mode="wait" initial={false}>
+            {isCopied ? (
+              <motion.span key="copied" initial={{ clipPath: 'inset(0 100% 0 0)' }} animate={{ clipPath: 'inset(0 0% 0 0)' }} exit={{ clipPath: 'inset(0 0 0 100%)' }} transition={{ duration: 0.25, ease: 'easeInOut' }} className="flex items-center gap-1.5">
+                <IconCheck size={13} stroke={2.5} aria-hidden="true" />COPIED
+              </motion.span>
+            ) : (
+              <motion.span key="copy" initial={{ clipPath: 'inset(0 100% 0 0)' }} animate={{ clipPath: 'inset(0 0% 0 0)' }} exit={{ clipPath: 'inset(0 0 0 100%)' }} transition={{ duration: 0.25, ease: 'easeInOut' }} className="flex items-center gap-1.5">
+                <IconCopy size={13} stroke={2} aria-hidden="true" />COPY
+              </motion.span>
+            )}
+          </AnimatePresence>
+        </Button>
+      </div>
     </CardFooter>
   );
 
@@ -633,20 +1112,19 @@ export default function BlurGenerator() {
 
             {/* Preview */}
             <section
+              ref={desktopPreviewRef}
               aria-label="Effect preview"
               className="relative w-[400px] rounded-xl overflow-hidden shadow-xl shrink-0 flex items-center justify-center bg-muted"
             >
               <div className="absolute top-3 right-3 z-20 flex gap-1.5">{uploadControls}</div>
-              {previewImage}
-              {blurOverlay}
-              {caption}
+              {previewContent}
             </section>
 
             {/* Controls card */}
             <Card className="w-[360px] shrink-0 shadow-xl gap-0 py-0 bg-card border-border">
               <CardContent className="p-5 flex-1 flex flex-col">
                 <div className="flex items-center justify-between mb-4">
-                  <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">Blur Generator</span>
+                  <ToolSwitcher />
                   {toolbar(false)}
                 </div>
                 <LayoutGroup id="desktop-controls">
@@ -666,14 +1144,13 @@ export default function BlurGenerator() {
 
         {/* Preview card */}
         <section
+          ref={mobilePreviewRef}
           aria-label="Effect preview"
           className="relative w-full max-w-sm rounded-2xl overflow-hidden shadow-xl bg-muted"
           style={{ aspectRatio: '4/5' }}
         >
           <div className="absolute top-3 right-3 z-20 flex gap-1.5">{uploadControls}</div>
-          {previewImage}
-          {blurOverlay}
-          {caption}
+          {previewContent}
         </section>
 
         {/* Attribution aligned to preview card width */}
@@ -712,7 +1189,7 @@ export default function BlurGenerator() {
               <Card className="flex flex-col flex-1 min-h-0 gap-0 py-0 bg-card/95 border-border shadow-2xl rounded-2xl">
                 <CardContent className="p-5 flex-1 flex flex-col overflow-y-auto">
                   <div className="flex items-center justify-between mb-4">
-                    <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">Blur Generator</span>
+                    <ToolSwitcher />
                     {toolbar(true)}
                   </div>
                   <LayoutGroup id="mobile-controls">
@@ -725,6 +1202,9 @@ export default function BlurGenerator() {
           )}
         </AnimatePresence>
       </div>
+
+      {/* One dialog for the page: the footer that opens it is mounted in both layouts */}
+      <ImportDialog open={isImportOpen} onClose={() => setIsImportOpen(false)} onImport={applyState} />
     </main>
   );
 }
@@ -0,0 +1,97 @@
+'use client';
+
+import React, { useId } from 'react';
+import { Button } from '@/components/ui/button';
+import type { TintSettings } from '@/lib/blur-utils';
+import type { LegibilityReport, TextSample } from '@/lib/legibility';
+import { SliderRow } from './slider-row';
+import { ToggleRow } from './toggle-row';
+import { ColorRow } from './color-row';
+
+interface LegibilityPanelProps {
+  value: TextSample;
+  onChange: (val: TextSample) => void;
+  /** `null` while the first measurement is running. */
+  report: LegibilityReport | null;
+  onApplyBlur: (blur: number) => void;
+  onApplyTint: (tint: TintSettings) => void;
+}
+
+function LevelBadge({ level, passed }: { level: string; passed: boolean }) {
+  return (
+    <span
+      className={`px-1.5 py-0.5 rounded text-[9px] font-bold tracking-wider ${passed ? 'bg-primary text-primary-foreground' : 'bg-destructive/10 text-destructive'}`}
+    >
+      {level} {passed ? 'PASS' : 'FAIL'}
+    </span>
+  );
+}
+
+export function LegibilityPanel({ value, onChange, report, onApplyBlur, onApplyTint }: LegibilityPanelProps) {
+  const textId = useId();
+  const update = (patch: Partial<TextSample>) => onChange({ ...value, ...patch });
+
+  return (
+    <div>
+      <ToggleRow label="Text legibility check" checked={value.enabled} onChange={(enabled) => update({ enabled })} />
+      {value.enabled && (
+        <>
+          <div className="flex items-center justify-between gap-3 py-1.5">
+            <label htmlFor={textId} className="text-xs font-medium text-muted-foreground w-16 shrink-0">Text</label>
+            <input
+              id={textId}
+              type="text"
+              value={value.text}
+              onChange={(e) => update({ text: e.target.value })}
+              className="flex-1 min-w-0 px-2 py-1 text-xs rounded-md border border-border outline-none bg-background text-foreground focus:ring-2 focus:ring-ring"
+            />
+          </div>
+          <ColorRow label="Colour" value={value.color} onChange={(color) => update({ color })} />
+          <SliderRow label="Size" value={value.size} min={10} max={48} step={1} onChange={(size) => update({ size })} unit="px" />
+          <SliderRow label="X" value={value.x} min={0} max={100} step={1} onChange={(x) => update({ x })} unit="%" />
+          <SliderRow label="Y" value={value.y} min={0} max={100} step={1} onChange={(y) => update({ y })} unit="%" />
+
+          <div className="mt-2 p-2 rounded-md border border-border bg-muted/50" aria-live="polite">
+            {report ? (
+              <>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs font-medium text-foreground">
+                    Contrast <span className="font-mono">{report.ratio.toFixed(2)}:1</span>
+                    {report.large && <span className="text-muted-foreground"> · large text</span>}
+                  </span>
+                  <div className="flex gap-1">
+                    <LevelBadge level="AA" passed={report.level !== 'fail'} />
+                    <LevelBadge level="AAA" passed={report.level === 'AAA'} />
+                  </div>
+                </div>
+                {report.level === 'fail' && (
+                  <div className="flex flex-col gap-1 mt-2">
+                    {report.minBlur !== null && (
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-[11px] text-muted-foreground">Passes AA at {report.minBlur}px blur</span>
+                        <Button variant="secondary" size="xs" onClick={() => onApplyBlur(report.minBlur!)} className="text-[10px] font-bold">APPLY</Button>
+                      </div>
+                    )}
+                    {report.minTint && (
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-[11px] text-muted-foreground">
+                          Passes AA with a <span className="font-mono uppercase">{report.minTint.color}</span> tint at {report.minTint.opacity}%
+                        </span>
+                        <Button variant="secondary" size="xs" onClick={() => onApplyTint(report.minTint!)} className="text-[10px] font-bold">APPLY</Button>
+                      </div>
+                    )}
+                    {report.minBlur === null && !report.minTint && (
+                      <span className="text-[11px] text-muted-foreground">No blur or tint gets this text to AA here; try moving it</span>
+                    )}
+                  </div>
+                )}
+              </>
+            ) : (
+              <span className="text-[11px] text-muted-foreground">Measuring…</span>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import React, { useId, useMemo, useState } from 'react';
+import { IconCopy, IconDeviceFloppy, IconPencil, IconTrash } from '@tabler/icons-react';
+import { sileo } from 'sileo';
+import { Button } from '@/components/ui/button';
+import { buildMaskImage, type BlurState } from '@/lib/blur-utils';
+import { savePresetToDB, deletePresetFromDB, type SavedPreset } from '@/lib/db';
+
+interface PresetsPanelProps {
+  presets: SavedPreset[];
+  onPresetsChange: (presets: SavedPreset[]) => void;
+  currentState: BlurState;
+  onApply: (state: BlurState) => void;
+}
+
+const touch = (preset: SavedPreset): SavedPreset => ({ ...preset, updatedAt: Date.now() });
+
+// Draws the mask itself: solid where the blur is applied, transparent where it's sharp
+function PresetThumbnail({ state }: { state: BlurState }) {
+  const maskImage = useMemo(() => buildMaskImage(state), [state]);
+  return (
+    <div aria-hidden="true" className="relative w-7 h-9 shrink-0 rounded-md overflow-hidden bg-muted shadow-inner">
+      <div className="absolute inset-0 bg-foreground/70" style={{ maskImage, WebkitMaskImage: maskImage }} />
+    </div>
+  );
+}
+
+export function PresetsPanel({ presets, onPresetsChange, currentState, onApply }: PresetsPanelProps) {
+  const nameId = useId();
+  const [name,      setName]      = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const persist = (preset: SavedPreset, next: SavedPreset[]) => {
+    onPresetsChange(next);
+    savePresetToDB(preset).catch(() => sileo.error({ title: 'Could not save preset', description: 'Browser storage is unavailable' }));
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const now = Date.now();
+    const preset: SavedPreset = {
+      id:        crypto.randomUUID(),
+      name:      name.trim() || `Preset ${presets.length + 1}`,
+      state:     currentState,
+      createdAt: now,
+      updatedAt: now,
+    };
+    persist(preset, [...presets, preset]);
+    setName('');
+  };
+
+  const commitRename = (preset: SavedPreset) => {
+    setEditingId(null);
+    const trimmed = draftName.trim();
+    if (!trimmed || trimmed === preset.name) return;
+    const renamed = touch({ ...preset, name: trimmed });
+    persist(renamed, presets.map(p => (p.id === preset.id ? renamed : p)));
+  };
+
+  const handleDuplicate = (preset: SavedPreset) => {
+    const now = Date.now();
+    const copy = { ...preset, id: crypto.randomUUID(), name: `${preset.name} copy`, createdAt: now, updatedAt: now };
+    persist(copy, [...presets, copy]);
+  };
+
+  const handleDelete = (preset: SavedPreset) => {
+    onPresetsChange(presets.filter(p => p.id !== preset.id));
+    deletePresetFromDB(preset.id).catch(() => sileo.error({ title: 'Could not delete preset', description: 'Browser storage is unavailable' }));
+  };
+
+  return (
+    <fieldset className="border-none p-0 m-0">
+      <legend className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider mb-2">Saved Presets</legend>
+
+      <form onSubmit={handleSave} className="flex items-center gap-1.5 mb-2">
+        <label htmlFor={nameId} className="sr-only">Preset name</label>
+        <input
+          id={nameId}
+          type="text"
+          value={name}
+          placeholder={`Preset ${presets.length + 1}`}
+          onChange={(e) => setName(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 text-xs rounded-md border border-border outline-none bg-background text-foreground placeholder:text-muted-foreground focus:ring-2 focus:ring-ring"
+        />
+        <Button type="submit" variant="secondary" size="icon-sm" aria-label="Save current settings as preset">
+          <IconDeviceFloppy size={14} stroke={2} />
+        </Button>
+      </form>
+
+      {presets.length === 0 ? (
+        <p className="text-[11px] text-muted-foreground py-1">No saved presets yet.</p>
+      ) : (
+        <ul className="flex flex-col gap-1 p-1 rounded-lg shadow-inner bg-muted">
+          {presets.map(preset => (
+            <li key={preset.id} className="flex items-center gap-2 pl-1 pr-0.5 py-1 rounded-md hover:bg-background transition-colors">
+              <PresetThumbnail state={preset.state} />
+              {editingId === preset.id ? (
+                <input
+                  autoFocus
+                  type="text"
+                  aria-label="Preset name"
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={() => commitRename(preset)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename(preset);
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 px-1.5 py-0.5 text-xs rounded border border-border outline-none bg-background text-foreground focus:ring-2 focus:ring-ring"
+                />
+              ) : (
+                <button
+                  onClick={() => onApply(preset.state)}
+                  aria-label={`Apply preset ${preset.name}`}
+                  className="flex-1 min-w-0 text-left text-xs font-medium truncate text-foreground"
+                >
+                  {preset.name}
+                </button>
+              )}
+              <div className="flex gap-0.5 shrink-0">
+                <Button variant="ghost" size="icon-xs" onClick={() => { setEditingId(preset.id); setDraftName(preset.name); }} aria-label={`Rename ${preset.name}`} className="text-muted-foreground hover:text-foreground">
+                  <IconPencil size={12} stroke={2} />
+                </Button>
+                <Button variant="ghost" size="icon-xs" onClick={() => handleDuplicate(preset)} aria-label={`Duplicate ${preset.name}`} className="text-muted-foreground hover:text-foreground">
+                  <IconCopy size={12} stroke={2} />
+                </Button>
+                <Button variant="ghost" size="icon-xs" onClick={() => handleDelete(preset)} aria-label={`Delete ${preset.name}`} className="text-muted-foreground hover:text-destructive">
+                  <IconTrash size={12} stroke={2} />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </fieldset>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import React, { useId } from 'react';
+import { IconChevronDown } from '@tabler/icons-react';
+
+interface SelectRowProps<T extends string> {
+  label: string;
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (val: T) => void;
+}
+
+export function SelectRow<T extends string>({ label, value, options, onChange }: SelectRowProps<T>) {
+  const id = useId();
+  return (
+    <div className="flex items-center justify-between gap-3 py-1.5">
+      <label htmlFor={id} className="text-xs font-medium text-muted-foreground w-16 shrink-0">
+        {label}
+      </label>
+      <div className="relative flex-1 min-w-0">
+        <select
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value as T)}
+          className="w-full appearance-none pl-2 pr-6 py-1 text-xs rounded-md border border-border outline-none bg-background text-foreground truncate cursor-pointer focus:ring-2 focus:ring-ring"
+        >
+          {options.map(opt => (
+            <option key={opt.value} value={opt.value}>{opt.label}</option>
+          ))}
+        </select>
+        <IconChevronDown size={12} stroke={2} aria-hidden="true" className="absolute right-2 top-1/2 -translate-y-1/2 pointer-events-none text-muted-foreground" />
+      </div>
+    </div>
+  );
+}
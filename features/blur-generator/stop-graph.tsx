@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import type { MaskStop } from '@/lib/blur-utils';
+import { ToggleRow } from './toggle-row';
+
+interface StopGraphProps {
+  /** Stops the mask is built from right now, computed or manual. */
+  stops: MaskStop[];
+  manual: boolean;
+  /** `null` switches back to computed stops. */
+  onChange: (val: MaskStop[] | null) => void;
+}
+
+// Graph area inside the 160×100 viewBox
+const WIDTH  = 160;
+const HEIGHT = 100;
+const PAD    = 8;
+
+const toX = (position: number) => PAD + (position / 100) * (WIDTH - PAD * 2);
+const toY = (opacity: number) => PAD + (1 - opacity) * (HEIGHT - PAD * 2);
+
+const roundStop = (s: MaskStop): MaskStop => ({
+  position: Math.round(s.position * 10) / 10,
+  opacity:  Math.round(s.opacity * 1000) / 1000,
+});
+
+/** Opacity of the piecewise-linear mask at `position`, so a new stop doesn't change the curve. */
+function opacityAt(stops: MaskStop[], position: number): number {
+  if (position <= stops[0].position) return stops[0].opacity;
+  for (let i = 1; i < stops.length; i++) {
+    const a = stops[i - 1], b = stops[i];
+    if (position <= b.position) {
+      const span = b.position - a.position;
+      return span === 0 ? b.opacity : a.opacity + ((position - a.position) / span) * (b.opacity - a.opacity);
+    }
+  }
+  return stops[stops.length - 1].opacity;
+}
+
+export function StopGraph({ stops, manual, onChange }: StopGraphProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [locked,   setLocked]   = useState(false);
+
+  const current = selected !== null && selected < stops.length ? selected : null;
+
+  const pointFromEvent = (e: React.PointerEvent | React.MouseEvent): MaskStop => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const vx = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const vy = ((e.clientY - rect.top) / rect.height) * HEIGHT;
+    return roundStop({
+      position: Math.min(100, Math.max(0, ((vx - PAD) / (WIDTH - PAD * 2)) * 100)),
+      opacity:  Math.min(1, Math.max(0, 1 - (vy - PAD) / (HEIGHT - PAD * 2))),
+    });
+  };
+
+  // Stops keep their order: a stop can't be moved past its neighbours
+  const moveStop = (i: number, target: MaskStop) => {
+    const min = i > 0 ? stops[i - 1].position : 0;
+    const max = i < stops.length - 1 ? stops[i + 1].position : 100;
+    const position = locked ? stops[i].position : Math.min(max, Math.max(min, target.position));
+    onChange(stops.map((s, j) => (j === i ? roundStop({ position, opacity: target.opacity }) : s)));
+  };
+
+  const removeStop = (i: number) => {
+    if (stops.length <= 2) return;
+    onChange(stops.filter((_, j) => j !== i));
+    setSelected(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragging === null) return;
+    moveStop(dragging, pointFromEvent(e));
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (!manual || e.target !== e.currentTarget) return;
+    const { position } = pointFromEvent(e);
+    const stop = roundStop({ position, opacity: opacityAt(stops, position) });
+    const index = stops.findIndex(s => s.position > position);
+    const at = index === -1 ? stops.length : index;
+    onChange([...stops.slice(0, at), stop, ...stops.slice(at)]);
+    setSelected(at);
+  };
+
+  // Arrow keys nudge the focused stop, Shift for bigger steps; Delete removes it
+  const handleKeyDown = (i: number) => (e: React.KeyboardEvent) => {
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      removeStop(i);
+      return;
+    }
+    const step = e.shiftKey ? 10 : 1;
+    const delta: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0], ArrowRight: [step, 0], ArrowUp: [0, step / 100], ArrowDown: [0, -step / 100],
+    };
+    const d = delta[e.key];
+    if (!d) return;
+    e.preventDefault();
+    const s = stops[i];
+    moveStop(i, { position: s.position + d[0], opacity: Math.min(1, Math.max(0, s.opacity + d[1])) });
+  };
+
+  const line = stops.map(s => `${toX(s.position)} ${toY(s.opacity)}`).join(' L');
+
+  return (
+    <div className="flex flex-col gap-1">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        role="group"
+        aria-label="Mask opacity by position"
+        className={`w-full aspect-[8/5] rounded-lg bg-muted shadow-inner touch-none select-none text-foreground ${manual ? 'cursor-crosshair' : ''}`}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragging(null)}
+        onPointerCancel={() => setDragging(null)}
+        onDoubleClick={handleDoubleClick}
+      >
+        <rect x={PAD} y={PAD} width={WIDTH - PAD * 2} height={HEIGHT - PAD * 2} fill="none" stroke="currentColor" strokeOpacity={0.12} strokeWidth={0.5} pointerEvents="none" />
+        <path
+          d={`M${toX(stops[0].position)} ${toY(0)} L${line} L${toX(stops[stops.length - 1].position)} ${toY(0)} Z`}
+          fill="currentColor" fillOpacity={0.08} pointerEvents="none"
+        />
+        <path d={`M${line}`} fill="none" stroke="currentColor" strokeWidth={1.25} strokeLinejoin="round" pointerEvents="none" />
+        {stops.map((s, i) => manual ? (
+          <circle
+            key={i}
+            cx={toX(s.position)} cy={toY(s.opacity)} r={3.5}
+            role="slider"
+            tabIndex={0}
+            aria-label={`Stop ${i + 1}`}
+            aria-valuetext={`position ${s.position}%, opacity ${s.opacity}`}
+            onPointerDown={(e) => {
+              (e.currentTarget.ownerSVGElement ?? e.currentTarget).setPointerCapture(e.pointerId);
+              setDragging(i);
+              setSelected(i);
+            }}
+            onFocus={() => setSelected(i)}
+            onKeyDown={handleKeyDown(i)}
+            className={`stroke-current outline-none focus-visible:stroke-primary ${current === i ? 'fill-foreground' : 'fill-background'} ${locked ? 'cursor-ns-resize' : dragging === i ? 'cursor-grabbing' : 'cursor-grab'}`}
+            strokeWidth={1.25}
+          />
+        ) : (
+          <circle key={i} cx={toX(s.position)} cy={toY(s.opacity)} r={1.75} className="fill-current" pointerEvents="none" />
+        ))}
+      </svg>
+
+      <div className="flex items-center justify-between gap-2 min-h-6 text-[11px] text-muted-foreground">
+        {manual && current !== null ? (
+          <>
+            <span className="font-mono">{stops[current].position}% · {stops[current].opacity.toFixed(3)}</span>
+            <Button variant="ghost" size="xs" onClick={() => removeStop(current)} disabled={stops.length <= 2} className="text-[10px] font-bold">
+              REMOVE STOP
+            </Button>
+          </>
+        ) : (
+          <span>{stops.length} stops{manual ? ' · double-click to add' : ''}</span>
+        )}
+      </div>
+
+      <ToggleRow label="Edit stops by hand" checked={manual} onChange={(on) => onChange(on ? stops.map(roundStop) : null)} />
+      {manual && <ToggleRow label="Lock positions" checked={locked} onChange={setLocked} />}
+    </div>
+  );
+}
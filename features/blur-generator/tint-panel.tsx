@@ -0,0 +1,39 @@
+'use client';
+
+import React from 'react';
+import type { TintSettings } from '@/lib/blur-utils';
+import { SliderRow } from './slider-row';
+import { SelectRow } from './select-row';
+import { ToggleRow } from './toggle-row';
+import { ColorRow } from './color-row';
+import { NAMED_PRESET_OPTIONS, EASING_TYPE_OPTIONS } from './easing-options';
+
+interface TintPanelProps {
+  value: TintSettings;
+  onChange: (val: TintSettings) => void;
+}
+
+export function TintPanel({ value, onChange }: TintPanelProps) {
+  const update = (patch: Partial<TintSettings>) => onChange({ ...value, ...patch });
+
+  return (
+    <div>
+      <ToggleRow label="Tint" checked={value.enabled} onChange={(enabled) => update({ enabled })} />
+      {value.enabled && (
+        <>
+          <ColorRow label="Colour" value={value.color} onChange={(color) => update({ color })} />
+          <SliderRow label="Opacity" value={value.opacity} min={0} max={100} step={1} onChange={(opacity) => update({ opacity })} unit="%" />
+          <ToggleRow label="Follow blur curve" checked={value.followBlur} onChange={(followBlur) => update({ followBlur })} />
+          {!value.followBlur && (
+            <>
+              <SelectRow label="Easing" value={value.preset} options={NAMED_PRESET_OPTIONS} onChange={(preset) => update({ preset })} />
+              {value.preset !== 'linear' && (
+                <SelectRow label="Type" value={value.easingType} options={EASING_TYPE_OPTIONS} onChange={(easingType) => update({ easingType })} />
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import React, { useId } from 'react';
+
+interface ToggleRowProps {
+  label: string;
+  checked: boolean;
+  onChange: (val: boolean) => void;
+}
+
+export function ToggleRow({ label, checked, onChange }: ToggleRowProps) {
+  const id = useId();
+  return (
+    <div className="flex items-center justify-between py-1">
+      <label htmlFor={id} className="text-xs font-medium text-muted-foreground">{label}</label>
+      <label className="relative inline-flex items-center cursor-pointer">
+        <input id={id} type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="sr-only peer" />
+        <div className="w-8 h-4 peer-focus-visible:ring-2 peer-focus-visible:ring-ring rounded-full peer peer-checked:after:translate-x-full after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-3 after:w-3 after:transition-all bg-muted-foreground/30 peer-checked:bg-primary" />
+      </label>
+    </div>
+  );
+}
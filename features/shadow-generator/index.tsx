@@ -1,11 +1,7 @@
 /**
- * Shadow Generator — saved for later use.
- * This component is NOT imported anywhere in the app yet.
- * It is self-contained: all state, helpers, and sub-components live here.
- *
- * To activate: import dynamically in app/page.tsx (or any page) like:
- *
- *   const ShadowGenerator = dynamic(() => import('@/features/shadow-generator'), { ssr: false });
+ * Shadow Generator, served at /shadow.
+ * Apart from the shared undo history, clipboard and colour modules it is self-contained:
+ * state, helpers, and sub-components live here.
  */
 
 'use client';
@@ -13,28 +9,83 @@
 import React, { useState, useMemo, useRef, useEffect, useCallback, useId } from 'react';
 import {
   IconRotateClockwise, IconSun, IconMoon, IconCopy, IconChevronUp,
-  IconArrowBackUp, IconArrowForwardUp,
+  IconArrowBackUp, IconArrowForwardUp, IconArrowUp, IconArrowDown, IconPlus, IconTrash, IconChevronDown,
 } from '@tabler/icons-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { useTheme } from 'next-themes';
+import { sileo } from 'sileo';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
-import { toast } from 'sonner';
+import { HistoryPanel } from '@/components/history-panel';
+import { ToolSwitcher } from '@/components/tool-switcher';
+import { useHistory } from '@/lib/use-history';
+import { copyToClipboard } from '@/lib/clipboard';
+import { COLOR_SPACES, formatColor, parseColor, toHexInput, type ColorSpace } from '@/lib/color';
 
 // ─── Helpers ───────────────────────────────────────────────────────────────────
 
-function hexToRgba(hex: string, opacity: number) {
-  let r = 0, g = 0, b = 0;
-  if (hex.length === 4) {
-    r = parseInt(hex[1] + hex[1], 16);
-    g = parseInt(hex[2] + hex[2], 16);
-    b = parseInt(hex[3] + hex[3], 16);
-  } else if (hex.length === 7) {
-    r = parseInt(hex.substring(1, 3), 16);
-    g = parseInt(hex.substring(3, 5), 16);
-    b = parseInt(hex.substring(5, 7), 16);
+// The layer's opacity scales whatever alpha the colour already has; unparseable colours fall back to black
+function shadowColor(color: string, opacity: number, space: ColorSpace) {
+  const parsed = parseColor(color) ?? { r: 0, g: 0, b: 0, a: 1 };
+  return formatColor({ ...parsed, a: parsed.a * (opacity / 100) }, space);
+}
+
+// Hidden layers are left out; the first layer paints on top, as in CSS
+function buildBoxShadow(layers: ShadowLayer[], space: ColorSpace, separator = ', ') {
+  const visible = layers.filter(l => l.enabled);
+  if (visible.length === 0) return 'none';
+  return visible
+    .map(l => `${l.inset ? 'inset ' : ''}${l.x}px ${l.y}px ${l.blur}px ${l.spread}px ${shadowColor(l.color, l.opacity, space)}`)
+    .join(separator);
+}
+
+// Tailwind arbitrary values use underscores for spaces
+const arbitrary = (value: string) => value.replace(/ /g, '_');
+
+// Hex is unambiguous; anything else gets a `color:` hint so `text-[…]` isn't read as a font size
+const colorClass = (prefix: string, color: string) =>
+  color.startsWith('#') ? `${prefix}-[${color}]` : `${prefix}-[color:${arbitrary(color)}]`;
+
+// Rule order matters: :active comes last so pressing a hovered button still shows the pressed style
+function buildButtonCss(s: ShadowState, selector: string, space: ColorSpace, preview = false) {
+  const transition = `box-shadow ${s.transitionDuration}ms ${s.transitionEasing}, background-color ${s.transitionDuration}ms ${s.transitionEasing}`;
+  const rules = [
+    `${selector} {\n  background-color: ${s.buttonBgColor};\n  color: ${s.buttonTextColor};\n  padding: ${s.paddingY}px ${s.paddingX}px;\n  font-size: ${s.fontSize}px;\n  font-weight: ${s.fontWeight};\n  border-radius: ${s.borderRadius}px;\n  box-shadow: ${buildBoxShadow(s.layers, space, ',\n    ')};\n  border: none;\n  outline: none;\n  cursor: pointer;\n  transition: ${transition};\n}`,
+  ];
+  for (const state of BUTTON_STATES) {
+    const style = s.states[state.id];
+    if (!style.enabled) continue;
+    // The preview can also force a state through `data-state`, so it shows without interacting
+    const selectors = preview ? `${selector}${state.pseudo},\n${selector}[data-state="${state.id}"]` : `${selector}${state.pseudo}`;
+    rules.push(`${selectors} {\n  background-color: ${style.bgColor};\n  box-shadow: ${buildBoxShadow(style.layers, space, ',\n    ')};\n}`);
   }
-  return `rgba(${r}, ${g}, ${b}, ${opacity / 100})`;
+  return rules.join('\n\n');
+}
+
+function buildTailwindClasses(s: ShadowState, space: ColorSpace) {
+  const shadow = (layers: ShadowLayer[]) => {
+    const value = buildBoxShadow(layers, space);
+    return value === 'none' ? 'shadow-none' : `shadow-[${arbitrary(value)}]`;
+  };
+  const classes = [
+    colorClass('bg', s.buttonBgColor), colorClass('text', s.buttonTextColor), `px-[${s.paddingX}px]`, `py-[${s.paddingY}px]`,
+    `text-[${s.fontSize}px]`, `font-[${s.fontWeight}]`, `rounded-[${s.borderRadius}px]`, shadow(s.layers),
+    'border-none', 'outline-none', 'cursor-pointer',
+    'transition-[box-shadow,background-color]', `duration-[${s.transitionDuration}ms]`, TAILWIND_EASINGS[s.transitionEasing],
+  ];
+  for (const state of BUTTON_STATES) {
+    const style = s.states[state.id];
+    if (!style.enabled) continue;
+    classes.push(`${state.variant}:${colorClass('bg', style.bgColor)}`, `${state.variant}:${shadow(style.layers)}`);
+  }
+  return classes.join(' ');
+}
+
+// "Outset 2" is the second outset layer from the top
+function layerName(layers: ShadowLayer[], index: number) {
+  const layer = layers[index];
+  const n = layers.slice(0, index + 1).filter(l => l.inset === layer.inset).length;
+  return `${layer.inset ? 'Inset' : 'Outset'} ${n}`;
 }
 
 // ─── SliderRow ─────────────────────────────────────────────────────────────────
@@ -61,6 +112,30 @@ function SliderRow({ label, value, min, max, step, onChange, unit = '' }: {
   );
 }
 
+// ─── useColorDraft ─────────────────────────────────────────────────────────────
+
+// Text typed into a colour field only reaches state once it parses; until then the field shows
+// what was typed, marked invalid, and falls back to the last valid colour when it loses focus
+function useColorDraft(value: string, onChange: (v: string) => void) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const parsed = parseColor(value);
+  return {
+    text:    draft ?? value,
+    invalid: draft !== null && parseColor(draft) === null,
+    // The native picker has no alpha, so a translucent colour keeps its alpha when picked over
+    picker:  parsed ? toHexInput(parsed) : '#000000',
+    onPick:  (hex: string) => {
+      setDraft(null);
+      onChange(parsed && parsed.a < 1 ? formatColor({ ...parseColor(hex)!, a: parsed.a }, 'hex') : hex);
+    },
+    onType:  (text: string) => {
+      setDraft(text);
+      if (parseColor(text)) onChange(text.trim());
+    },
+    onBlur:  () => setDraft(null),
+  };
+}
+
 // ─── ColorPickerField ──────────────────────────────────────────────────────────
 
 function ColorPickerField({ label, value, onChange }: {
@@ -68,18 +143,24 @@ function ColorPickerField({ label, value, onChange }: {
 }) {
   const colorId = useId();
   const textId  = useId();
+  const errorId = useId();
+  const color = useColorDraft(value, onChange);
   return (
-    <div className="flex-1 flex flex-col gap-1.5">
+    <div className="flex-1 min-w-0 flex flex-col gap-1.5">
       <label htmlFor={colorId} className="text-xs font-medium text-muted-foreground">{label}</label>
-      <div className="flex items-center gap-2 px-2 py-1 rounded-md border border-border bg-background">
-        <input id={colorId} type="color" value={value} onChange={(e) => onChange(e.target.value)}
+      <div className={`flex items-center gap-2 px-2 py-1 rounded-md border bg-background ${color.invalid ? 'border-destructive' : 'border-border'}`}>
+        <input id={colorId} type="color" value={color.picker} onChange={(e) => color.onPick(e.target.value)}
           aria-label={`${label} color picker`}
-          className="size-6 rounded cursor-pointer bg-transparent border-none p-0" />
-        <label htmlFor={textId} className="sr-only">{label} hex value</label>
-        <input id={textId} type="text" value={value} onChange={(e) => onChange(e.target.value)}
-          aria-label={`${label} hex value`}
-          className="w-16 text-xs font-mono text-muted-foreground uppercase bg-transparent border-none outline-none" />
+          className="size-6 shrink-0 rounded cursor-pointer bg-transparent border-none p-0" />
+        <label htmlFor={textId} className="sr-only">{label} value</label>
+        <input id={textId} type="text" value={color.text} onChange={(e) => color.onType(e.target.value)} onBlur={color.onBlur}
+          aria-label={`${label} value`} aria-invalid={color.invalid} aria-describedby={color.invalid ? errorId : undefined}
+          spellCheck={false}
+          className={`flex-1 min-w-0 text-xs font-mono bg-transparent border-none outline-none ${color.invalid ? 'text-destructive' : 'text-muted-foreground'}`} />
       </div>
+      {color.invalid && (
+        <p id={errorId} className="text-[10px] text-destructive">Use hex, rgb(), hsl(), oklch() or a colour name</p>
+      )}
     </div>
   );
 }
@@ -91,34 +172,246 @@ function InlineColorPicker({ label, value, onChange }: {
 }) {
   const colorId = useId();
   const textId  = useId();
+  const color = useColorDraft(value, onChange);
   return (
-    <div className="flex items-center gap-1.5 px-1.5 py-0.5 rounded border border-border bg-background">
+    <div className={`flex items-center gap-1.5 px-1.5 py-0.5 rounded border bg-background ${color.invalid ? 'border-destructive' : 'border-border'}`}>
       <label htmlFor={colorId} className="sr-only">{label} color</label>
-      <input id={colorId} type="color" value={value} onChange={(e) => onChange(e.target.value)}
+      <input id={colorId} type="color" value={color.picker} onChange={(e) => color.onPick(e.target.value)}
         aria-label={`${label} color picker`}
-        className="size-4 rounded cursor-pointer bg-transparent border-none p-0" />
-      <label htmlFor={textId} className="sr-only">{label} hex</label>
-      <input id={textId} type="text" value={value} onChange={(e) => onChange(e.target.value)}
-        aria-label={`${label} hex value`}
-        className="w-14 text-[10px] font-mono text-muted-foreground uppercase bg-transparent border-none outline-none" />
+        className="size-4 shrink-0 rounded cursor-pointer bg-transparent border-none p-0" />
+      <label htmlFor={textId} className="sr-only">{label} value</label>
+      <input id={textId} type="text" value={color.text} onChange={(e) => color.onType(e.target.value)} onBlur={color.onBlur}
+        aria-label={`${label} value`} aria-invalid={color.invalid}
+        title={color.invalid ? 'Use hex, rgb(), hsl(), oklch() or a colour name' : undefined}
+        spellCheck={false}
+        className={`w-28 text-[10px] font-mono bg-transparent border-none outline-none ${color.invalid ? 'text-destructive' : 'text-muted-foreground'}`} />
     </div>
   );
 }
 
 // ─── Types ─────────────────────────────────────────────────────────────────────
 
+type ShadowLayer = {
+  id: string;
+  inset: boolean;
+  enabled: boolean;
+  x: number; y: number; blur: number; spread: number;
+  opacity: number; color: string;
+};
+
+type ButtonStateName = 'hover' | 'focus' | 'active';
+
+type ButtonStateStyle = {
+  enabled: boolean;
+  bgColor: string;
+  layers: ShadowLayer[];
+};
+
+type TransitionEasing = 'ease' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'linear';
+
 type ShadowState = {
   buttonText: string;
   buttonBgColor: string;
   buttonTextColor: string;
   paddingX: number; paddingY: number;
   fontSize: number; fontWeight: number; borderRadius: number;
-  outsetX: number; outsetY: number; outsetBlur: number; outsetSpread: number;
-  outsetOpacity: number; outsetShadowColor: string;
-  insetX: number; insetY: number; insetBlur: number; insetSpread: number;
-  insetOpacity: number; insetShadowColor: string;
+  layers: ShadowLayer[];
+  states: Record<ButtonStateName, ButtonStateStyle>;
+  transitionDuration: number;
+  transitionEasing: TransitionEasing;
+};
+
+// In cascade order, see buildButtonCss
+const BUTTON_STATES: { id: ButtonStateName; label: string; pseudo: string; variant: string }[] = [
+  { id: 'hover',  label: 'Hover',  pseudo: ':hover',         variant: 'hover'         },
+  { id: 'focus',  label: 'Focus',  pseudo: ':focus-visible', variant: 'focus-visible' },
+  { id: 'active', label: 'Active', pseudo: ':active',        variant: 'active'        },
+];
+
+const TRANSITION_EASINGS: { value: TransitionEasing; label: string }[] = [
+  { value: 'ease',        label: 'Ease'        },
+  { value: 'ease-in',     label: 'Ease In'     },
+  { value: 'ease-out',    label: 'Ease Out'    },
+  { value: 'ease-in-out', label: 'Ease In Out' },
+  { value: 'linear',      label: 'Linear'      },
+];
+
+const TAILWIND_EASINGS: Record<TransitionEasing, string> = {
+  'ease':        'ease-[ease]',
+  'ease-in':     'ease-in',
+  'ease-out':    'ease-out',
+  'ease-in-out': 'ease-in-out',
+  'linear':      'ease-linear',
 };
 
+const SPRING = { type: 'spring', bounce: 0.4, duration: 0.6 } as const;
+
+const EDITABLE_STATES = [{ id: 'rest' as const, label: 'Rest' }, ...BUTTON_STATES];
+
+// Fixed ids keep the defaults equal across reloads, so restored history lines up with a fresh page
+const DEFAULT_OUTSET: ShadowLayer = { id: 'default-outset', inset: false, enabled: true, x: 0, y: 10, blur: 20, spread: -5, opacity: 15, color: '#000000' };
+const DEFAULT_INSET:  ShadowLayer = { id: 'default-inset',  inset: true,  enabled: true, x: 0, y: 2,  blur: 4,  spread: 0,  opacity: 10, color: '#ffffff' };
+const DEFAULT_LAYERS = [DEFAULT_OUTSET, DEFAULT_INSET];
+
+// Lifts on hover, sinks when pressed; the focus ring is ready but off until enabled
+const DEFAULT_STATES: Record<ButtonStateName, ButtonStateStyle> = {
+  hover: {
+    enabled: true, bgColor: '#ffffff',
+    layers: [{ ...DEFAULT_OUTSET, y: 14, blur: 28, spread: -6, opacity: 20 }, DEFAULT_INSET],
+  },
+  focus: {
+    enabled: false, bgColor: '#ffffff',
+    layers: [{ ...DEFAULT_OUTSET, id: 'default-ring', y: 0, blur: 0, spread: 3, opacity: 50, color: '#3b82f6' }, DEFAULT_OUTSET, DEFAULT_INSET],
+  },
+  active: {
+    enabled: true, bgColor: '#ffffff',
+    layers: [{ ...DEFAULT_OUTSET, y: 4, blur: 10, spread: -4 }, DEFAULT_INSET],
+  },
+};
+
+// Reset keeps every state on the same background as the resting button
+function statesWithBackground(bgColor: string): Record<ButtonStateName, ButtonStateStyle> {
+  return {
+    hover:  { ...DEFAULT_STATES.hover,  bgColor },
+    focus:  { ...DEFAULT_STATES.focus,  bgColor },
+    active: { ...DEFAULT_STATES.active, bgColor },
+  };
+}
+
+// History saved before layers existed has one outset and one inset shadow as flat fields;
+// before button states existed it has no states or transition
+function reviveShadowState(saved: ShadowState): ShadowState {
+  const added: Pick<ShadowState, 'states' | 'transitionDuration' | 'transitionEasing'> = {
+    states: DEFAULT_STATES, transitionDuration: 300, transitionEasing: 'ease',
+  };
+  const state: ShadowState = { ...added, ...saved };
+  if (Array.isArray(state.layers)) return state;
+  const legacy = state as unknown as Record<string, number | string>;
+  const layer = (kind: 'outset' | 'inset', base: ShadowLayer): ShadowLayer => ({
+    ...base,
+    x:       legacy[`${kind}X`]       as number,
+    y:       legacy[`${kind}Y`]       as number,
+    blur:    legacy[`${kind}Blur`]    as number,
+    spread:  legacy[`${kind}Spread`]  as number,
+    opacity: legacy[`${kind}Opacity`] as number,
+    color:   legacy[`${kind}ShadowColor`] as string,
+  });
+  return {
+    buttonText: state.buttonText, buttonBgColor: state.buttonBgColor, buttonTextColor: state.buttonTextColor,
+    paddingX: state.paddingX, paddingY: state.paddingY,
+    fontSize: state.fontSize, fontWeight: state.fontWeight, borderRadius: state.borderRadius,
+    layers: [layer('outset', DEFAULT_OUTSET), layer('inset', DEFAULT_INSET)],
+    states: state.states, transitionDuration: state.transitionDuration, transitionEasing: state.transitionEasing,
+  };
+}
+
+// ─── ShadowLayerList ───────────────────────────────────────────────────────────
+
+function ShadowLayerList({ layers, onChange }: {
+  layers: ShadowLayer[]; onChange: (layers: ShadowLayer[]) => void;
+}) {
+  const [selectedId, setSelectedId] = useState(layers[0]?.id ?? null);
+  const selectedIndex = Math.max(0, layers.findIndex(l => l.id === selectedId));
+  const selected = layers[selectedIndex];
+
+  const update = (id: string, patch: Partial<ShadowLayer>) =>
+    onChange(layers.map(l => (l.id === id ? { ...l, ...patch } : l)));
+
+  const insertAt = (index: number, layer: ShadowLayer) => {
+    onChange([...layers.slice(0, index), layer, ...layers.slice(index)]);
+    setSelectedId(layer.id);
+  };
+
+  const move = (index: number, by: number) => {
+    const next = [...layers];
+    const [layer] = next.splice(index, 1);
+    next.splice(index + by, 0, layer);
+    onChange(next);
+  };
+
+  return (
+    <fieldset className="pt-4 border-t border-border p-0 m-0">
+      <legend className="sr-only">Shadow Layers</legend>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider">Shadow Layers</span>
+        <div className="flex gap-1">
+          <Button variant="ghost" size="xs" onClick={() => insertAt(layers.length, { ...DEFAULT_OUTSET, id: crypto.randomUUID() })}
+            className="text-[10px] font-bold text-muted-foreground">
+            <IconPlus size={12} stroke={2} aria-hidden="true" />
+            OUTSET
+          </Button>
+          <Button variant="ghost" size="xs" onClick={() => insertAt(layers.length, { ...DEFAULT_INSET, id: crypto.randomUUID() })}
+            className="text-[10px] font-bold text-muted-foreground">
+            <IconPlus size={12} stroke={2} aria-hidden="true" />
+            INSET
+          </Button>
+        </div>
+      </div>
+
+      {layers.length === 0 ? (
+        <p className="text-[11px] text-muted-foreground py-1">No shadow layers yet.</p>
+      ) : (
+        <ul className="flex flex-col gap-1 p-1 rounded-lg shadow-inner bg-muted">
+          {layers.map((layer, i) => {
+            const name = layerName(layers, i);
+            return (
+              <li key={layer.id}
+                className={`flex items-center gap-2 pl-1.5 pr-0.5 py-1 rounded-md transition-colors ${i === selectedIndex ? 'bg-background' : 'hover:bg-background'}`}>
+                <input type="checkbox" checked={layer.enabled} onChange={(e) => update(layer.id, { enabled: e.target.checked })}
+                  aria-label={`Show ${name}`} className="size-3.5 cursor-pointer accent-foreground" />
+                <span aria-hidden="true" className="size-3 shrink-0 rounded-sm border border-border"
+                  style={{ backgroundColor: shadowColor(layer.color, Math.max(layer.opacity, 20), 'rgb') }} />
+                <button onClick={() => setSelectedId(layer.id)} aria-pressed={i === selectedIndex}
+                  className={`flex-1 min-w-0 text-left text-xs font-medium truncate ${layer.enabled ? 'text-foreground' : 'text-muted-foreground line-through'}`}>
+                  {name}
+                </button>
+                <div className="flex gap-0.5 shrink-0">
+                  <Button variant="ghost" size="icon-xs" onClick={() => move(i, -1)} disabled={i === 0}
+                    aria-label={`Move ${name} up`} className="text-muted-foreground hover:text-foreground">
+                    <IconArrowUp size={12} stroke={2} />
+                  </Button>
+                  <Button variant="ghost" size="icon-xs" onClick={() => move(i, 1)} disabled={i === layers.length - 1}
+                    aria-label={`Move ${name} down`} className="text-muted-foreground hover:text-foreground">
+                    <IconArrowDown size={12} stroke={2} />
+                  </Button>
+                  <Button variant="ghost" size="icon-xs" onClick={() => insertAt(i + 1, { ...layer, id: crypto.randomUUID() })}
+                    aria-label={`Duplicate ${name}`} className="text-muted-foreground hover:text-foreground">
+                    <IconCopy size={12} stroke={2} />
+                  </Button>
+                  <Button variant="ghost" size="icon-xs" onClick={() => onChange(layers.filter(l => l.id !== layer.id))}
+                    aria-label={`Delete ${name}`} className="text-muted-foreground hover:text-destructive">
+                    <IconTrash size={12} stroke={2} />
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {selected && (
+        <div className="mt-3">
+          <div className="flex items-center justify-between mb-2">
+            <label className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground cursor-pointer">
+              <input type="checkbox" checked={selected.inset} onChange={(e) => update(selected.id, { inset: e.target.checked })}
+                className="size-3.5 cursor-pointer accent-foreground" />
+              Inset
+            </label>
+            <InlineColorPicker label={layerName(layers, selectedIndex)} value={selected.color} onChange={(color) => update(selected.id, { color })} />
+          </div>
+          <div className="space-y-1">
+            <SliderRow label="X Offset" value={selected.x}       min={-50} max={50}  step={1} onChange={(x) => update(selected.id, { x })}             unit="px" />
+            <SliderRow label="Y Offset" value={selected.y}       min={-50} max={50}  step={1} onChange={(y) => update(selected.id, { y })}             unit="px" />
+            <SliderRow label="Blur"     value={selected.blur}    min={0}   max={100} step={1} onChange={(blur) => update(selected.id, { blur })}       unit="px" />
+            <SliderRow label="Spread"   value={selected.spread}  min={-50} max={50}  step={1} onChange={(spread) => update(selected.id, { spread })}   unit="px" />
+            <SliderRow label="Opacity"  value={selected.opacity} min={0}   max={100} step={1} onChange={(opacity) => update(selected.id, { opacity })} unit="%"  />
+          </div>
+        </div>
+      )}
+    </fieldset>
+  );
+}
+
 // ─── Component ─────────────────────────────────────────────────────────────────
 
 export default function ShadowGenerator() {
@@ -133,76 +426,39 @@ export default function ShadowGenerator() {
   const [fontSize,         setFontSize]         = useState(14);
   const [fontWeight,       setFontWeight]       = useState(700);
   const [borderRadius,     setBorderRadius]     = useState(16);
-  const [outsetX,          setOutsetX]          = useState(0);
-  const [outsetY,          setOutsetY]          = useState(10);
-  const [outsetBlur,       setOutsetBlur]       = useState(20);
-  const [outsetSpread,     setOutsetSpread]     = useState(-5);
-  const [outsetOpacity,    setOutsetOpacity]    = useState(15);
-  const [outsetShadowColor, setOutsetShadowColor] = useState('#000000');
-  const [insetX,           setInsetX]           = useState(0);
-  const [insetY,           setInsetY]           = useState(2);
-  const [insetBlur,        setInsetBlur]        = useState(4);
-  const [insetSpread,      setInsetSpread]      = useState(0);
-  const [insetOpacity,     setInsetOpacity]     = useState(10);
-  const [insetShadowColor, setInsetShadowColor] = useState('#ffffff');
+  const [layers,           setLayers]           = useState<ShadowLayer[]>(DEFAULT_LAYERS);
+  const [states,           setStates]           = useState(DEFAULT_STATES);
+  const [transitionDuration, setTransitionDuration] = useState(300);
+  const [transitionEasing,   setTransitionEasing]   = useState<TransitionEasing>('ease');
 
   const [exportFormat,   setExportFormat]   = useState<'css' | 'tailwind'>('css');
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  // The state being edited is also the one forced in the preview
+  const [editing,        setEditing]        = useState<'rest' | ButtonStateName>('rest');
+  const [colorSpace,     setColorSpace]     = useState<ColorSpace>('rgb');
 
   const dropdownRef  = useRef<HTMLDivElement>(null);
   const buttonTextId = useId();
+  const easingId     = useId();
 
   // ─── History ─────────────────────────────────────────────────────────────
 
   const currentState = useMemo<ShadowState>(() => ({
-    buttonText, buttonBgColor, buttonTextColor, paddingX, paddingY, fontSize, fontWeight, borderRadius,
-    outsetX, outsetY, outsetBlur, outsetSpread, outsetOpacity, outsetShadowColor,
-    insetX, insetY, insetBlur, insetSpread, insetOpacity, insetShadowColor,
-  }), [buttonText, buttonBgColor, buttonTextColor, paddingX, paddingY, fontSize, fontWeight, borderRadius,
-    outsetX, outsetY, outsetBlur, outsetSpread, outsetOpacity, outsetShadowColor,
-    insetX, insetY, insetBlur, insetSpread, insetOpacity, insetShadowColor]);
-
-  const [history,      setHistory]      = useState<ShadowState[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
-  const isUndoing = useRef(false);
-
-  useEffect(() => {
-    if (history.length === 0) { setHistory([currentState]); setHistoryIndex(0); return; }
-    if (isUndoing.current) { isUndoing.current = false; return; }
-    const timer = setTimeout(() => {
-      setHistory(prev => {
-        const next = prev.slice(0, historyIndex + 1);
-        const last = next[next.length - 1];
-        if (JSON.stringify(last) !== JSON.stringify(currentState)) {
-          next.push(currentState);
-          setHistoryIndex(next.length - 1);
-        }
-        return next;
-      });
-    }, 300);
-    return () => clearTimeout(timer);
-  }, [currentState, history.length, historyIndex]);
+    buttonText, buttonBgColor, buttonTextColor, paddingX, paddingY, fontSize, fontWeight, borderRadius, layers,
+    states, transitionDuration, transitionEasing,
+  }), [buttonText, buttonBgColor, buttonTextColor, paddingX, paddingY, fontSize, fontWeight, borderRadius, layers,
+    states, transitionDuration, transitionEasing]);
 
   const applyState = useCallback((s: ShadowState) => {
     setButtonText(s.buttonText);       setButtonBgColor(s.buttonBgColor);
     setButtonTextColor(s.buttonTextColor); setPaddingX(s.paddingX);
     setPaddingY(s.paddingY);           setFontSize(s.fontSize);
     setFontWeight(s.fontWeight);       setBorderRadius(s.borderRadius);
-    setOutsetX(s.outsetX);             setOutsetY(s.outsetY);
-    setOutsetBlur(s.outsetBlur);       setOutsetSpread(s.outsetSpread);
-    setOutsetOpacity(s.outsetOpacity); setOutsetShadowColor(s.outsetShadowColor);
-    setInsetX(s.insetX);               setInsetY(s.insetY);
-    setInsetBlur(s.insetBlur);         setInsetSpread(s.insetSpread);
-    setInsetOpacity(s.insetOpacity);   setInsetShadowColor(s.insetShadowColor);
+    setLayers(s.layers);               setStates(s.states);
+    setTransitionDuration(s.transitionDuration); setTransitionEasing(s.transitionEasing);
   }, []);
 
-  const undo = useCallback(() => {
-    if (historyIndex > 0) { isUndoing.current = true; const i = historyIndex - 1; setHistoryIndex(i); applyState(history[i]); }
-  }, [historyIndex, history, applyState]);
-
-  const redo = useCallback(() => {
-    if (historyIndex < history.length - 1) { isUndoing.current = true; const i = historyIndex + 1; setHistoryIndex(i); applyState(history[i]); }
-  }, [historyIndex, history, applyState]);
+  const history = useHistory({ tool: 'shadow', state: currentState, apply: applyState, revive: reviveShadowState });
 
   // ─── Effects ─────────────────────────────────────────────────────────────
 
@@ -218,32 +474,37 @@ export default function ShadowGenerator() {
 
   // ─── Derived values ───────────────────────────────────────────────────────
 
-  const buttonBoxShadow = useMemo(() => {
-    const outColor = hexToRgba(outsetShadowColor, outsetOpacity);
-    const inColor  = hexToRgba(insetShadowColor, insetOpacity);
-    return `${outsetX}px ${outsetY}px ${outsetBlur}px ${outsetSpread}px ${outColor}, inset ${insetX}px ${insetY}px ${insetBlur}px ${insetSpread}px ${inColor}`;
-  }, [outsetX, outsetY, outsetBlur, outsetSpread, outsetOpacity, outsetShadowColor,
-      insetX, insetY, insetBlur, insetSpread, insetOpacity, insetShadowColor]);
+  const previewCss = useMemo(
+    () => buildButtonCss(currentState, '.shadow-preview-button', colorSpace, true),
+    [currentState, colorSpace],
+  );
+
+  const updateState = (id: ButtonStateName, patch: Partial<ButtonStateStyle>) =>
+    setStates(prev => ({ ...prev, [id]: { ...prev[id], ...patch } }));
 
   // ─── Handlers ────────────────────────────────────────────────────────────
 
   const handleCopy = useCallback(() => {
     const code = exportFormat === 'css'
-      ? `.custom-button {\n  background-color: ${buttonBgColor};\n  color: ${buttonTextColor};\n  padding: ${paddingY}px ${paddingX}px;\n  font-size: ${fontSize}px;\n  font-weight: ${fontWeight};\n  border-radius: ${borderRadius}px;\n  box-shadow: ${buttonBoxShadow};\n  border: none;\n  outline: none;\n  cursor: pointer;\n  transition: all 0.3s ease;\n}`
-      : `<button style={{ backgroundColor: '${buttonBgColor}', color: '${buttonTextColor}', padding: '${paddingY}px ${paddingX}px', fontSize: '${fontSize}px', fontWeight: ${fontWeight}, borderRadius: '${borderRadius}px', boxShadow: '${buttonBoxShadow}' }} className="transition-all duration-300 outline-none">${buttonText}</button>`;
-    navigator.clipboard.writeText(code);
-    toast.success('Copied to clipboard');
-  }, [exportFormat, buttonBgColor, buttonTextColor, paddingX, paddingY, fontSize, fontWeight, borderRadius, buttonBoxShadow, buttonText]);
+      ? buildButtonCss(currentState, '.custom-button', colorSpace)
+      : `<button className="${buildTailwindClasses(currentState, colorSpace)}">${buttonText}</button>`;
+    copyToClipboard(code).then(() => {
+      sileo.success({
+        title:       `${exportFormat === 'css' ? 'HTML / CSS' : 'Tailwind'} copied`,
+        description: 'Paste it directly into your project',
+      });
+    });
+  }, [exportFormat, currentState, buttonText, colorSpace]);
 
   const resetShadow = useCallback(() => {
+    const bgColor = resolvedTheme === 'dark' ? '#2A2B2E' : '#ffffff';
     setButtonText('Hover Me');
-    setButtonBgColor(resolvedTheme === 'dark' ? '#2A2B2E' : '#ffffff');
+    setButtonBgColor(bgColor);
     setButtonTextColor(resolvedTheme === 'dark' ? '#ffffff' : '#111827');
     setPaddingX(32); setPaddingY(16); setFontSize(14); setFontWeight(700); setBorderRadius(16);
-    setOutsetX(0); setOutsetY(10); setOutsetBlur(20); setOutsetSpread(-5); setOutsetOpacity(15);
-    setOutsetShadowColor('#000000');
-    setInsetX(0); setInsetY(2); setInsetBlur(4); setInsetSpread(0); setInsetOpacity(10);
-    setInsetShadowColor('#ffffff');
+    setLayers(DEFAULT_LAYERS);
+    setStates(statesWithBackground(bgColor));
+    setTransitionDuration(300); setTransitionEasing('ease');
   }, [resolvedTheme]);
 
   if (!mounted) return null;
@@ -251,7 +512,7 @@ export default function ShadowGenerator() {
   const isDark = resolvedTheme === 'dark';
 
   return (
-    <main className="min-h-dvh flex items-center justify-center p-4 md:p-6 font-sans bg-background text-foreground">
+    <main className="min-h-dvh flex items-center justify-center p-4 md:p-6 font-sans bg-background text-foreground transition-colors duration-500">
       <div className="flex flex-col lg:flex-row gap-4 max-w-4xl w-full items-center lg:items-stretch justify-center">
 
         {/* Preview */}
@@ -259,22 +520,13 @@ export default function ShadowGenerator() {
           aria-label="Shadow preview"
           className="relative w-full max-w-[400px] aspect-[4/5] lg:aspect-auto rounded-xl overflow-hidden shadow-xl shrink-0 flex items-center justify-center bg-muted"
         >
-          <motion.button
-            whileHover={{ scale: 1.02 }}
-            whileTap={{ scale: 0.98 }}
-            className="tracking-wide transition-shadow duration-300 outline-none border-none cursor-pointer"
-            style={{
-              backgroundColor: buttonBgColor,
-              color:           buttonTextColor,
-              padding:         `${paddingY}px ${paddingX}px`,
-              fontSize:        `${fontSize}px`,
-              fontWeight:      fontWeight,
-              borderRadius:    borderRadius,
-              boxShadow:       buttonBoxShadow,
-            }}
+          <style>{previewCss}</style>
+          <button
+            data-state={editing === 'rest' ? undefined : editing}
+            className="shadow-preview-button tracking-wide"
           >
             {buttonText}
-          </motion.button>
+          </button>
         </section>
 
         {/* Controls */}
@@ -283,15 +535,13 @@ export default function ShadowGenerator() {
 
             {/* Header */}
             <div className="flex items-center justify-between mb-4">
-              <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">
-                Shadow Generator
-              </span>
+              <ToolSwitcher />
               <div role="toolbar" aria-label="Actions" className="flex gap-1">
-                <Button variant="ghost" size="icon-xs" onClick={undo} disabled={historyIndex <= 0}
+                <Button variant="ghost" size="icon-xs" onClick={history.undo} disabled={!history.canUndo}
                   aria-label="Undo" className="text-muted-foreground hover:text-foreground">
                   <IconArrowBackUp size={14} stroke={2} />
                 </Button>
-                <Button variant="ghost" size="icon-xs" onClick={redo} disabled={historyIndex >= history.length - 1}
+                <Button variant="ghost" size="icon-xs" onClick={history.redo} disabled={!history.canRedo}
                   aria-label="Redo" className="text-muted-foreground hover:text-foreground">
                   <IconArrowForwardUp size={14} stroke={2} />
                 </Button>
@@ -341,37 +591,92 @@ export default function ShadowGenerator() {
                 </div>
               </fieldset>
 
-              {/* Outset shadow */}
+              {/* Button states */}
               <fieldset className="pt-4 border-t border-border p-0 m-0">
-                <legend className="sr-only">Outset Shadow</legend>
-                <div className="flex items-center justify-between mb-2">
-                  <span className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider">Outset Shadow</span>
-                  <InlineColorPicker label="Outset shadow" value={outsetShadowColor} onChange={setOutsetShadowColor} />
+                <legend className="sr-only">Button State</legend>
+                <div role="radiogroup" aria-label="Button state to edit and preview" className="flex gap-1 p-1 rounded-lg shadow-inner bg-muted">
+                  {EDITABLE_STATES.map(opt => (
+                    <button
+                      key={opt.id}
+                      role="radio"
+                      aria-checked={editing === opt.id}
+                      onClick={() => setEditing(opt.id)}
+                      className={`relative flex-1 h-7 text-[11px] font-medium rounded-md flex items-center justify-center transition-colors z-10 ${editing === opt.id ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
+                    >
+                      {editing === opt.id && (
+                        <motion.div layoutId="active-button-state" className="absolute inset-0 rounded-md bg-background shadow-sm" transition={SPRING} />
+                      )}
+                      <span className={`relative z-20 ${opt.id !== 'rest' && !states[opt.id].enabled ? 'line-through' : ''}`}>{opt.label}</span>
+                    </button>
+                  ))}
                 </div>
+                {editing !== 'rest' && (
+                  <div className="flex items-center justify-between mt-2">
+                    <label className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground cursor-pointer">
+                      <input type="checkbox" checked={states[editing].enabled} onChange={(e) => updateState(editing, { enabled: e.target.checked })}
+                        className="size-3.5 cursor-pointer accent-foreground" />
+                      Style <code className="font-mono">{BUTTON_STATES.find(st => st.id === editing)!.pseudo}</code>
+                    </label>
+                    <InlineColorPicker label={`${editing} background`} value={states[editing].bgColor} onChange={(bgColor) => updateState(editing, { bgColor })} />
+                  </div>
+                )}
+              </fieldset>
+
+              {editing === 'rest' ? (
+                <ShadowLayerList key="rest" layers={layers} onChange={setLayers} />
+              ) : (
+                <ShadowLayerList key={editing} layers={states[editing].layers} onChange={(next) => updateState(editing, { layers: next })} />
+              )}
+
+              {/* Transition */}
+              <fieldset className="pt-4 border-t border-border p-0 m-0">
+                <legend className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider mb-2">
+                  Transition
+                </legend>
                 <div className="space-y-1">
-                  <SliderRow label="X Offset" value={outsetX}       min={-50} max={50}  step={1} onChange={setOutsetX}       unit="px" />
-                  <SliderRow label="Y Offset" value={outsetY}       min={-50} max={50}  step={1} onChange={setOutsetY}       unit="px" />
-                  <SliderRow label="Blur"     value={outsetBlur}    min={0}   max={100} step={1} onChange={setOutsetBlur}    unit="px" />
-                  <SliderRow label="Spread"   value={outsetSpread}  min={-50} max={50}  step={1} onChange={setOutsetSpread}  unit="px" />
-                  <SliderRow label="Opacity"  value={outsetOpacity} min={0}   max={100} step={1} onChange={setOutsetOpacity} unit="%"  />
+                  <SliderRow label="Duration" value={transitionDuration} min={0} max={1000} step={10} onChange={setTransitionDuration} unit="ms" />
+                  <div className="flex items-center justify-between gap-3 py-1.5">
+                    <label htmlFor={easingId} className="text-xs font-medium text-muted-foreground w-16 shrink-0">Easing</label>
+                    <div className="relative flex-1 min-w-0">
+                      <select
+                        id={easingId} value={transitionEasing}
+                        onChange={(e) => setTransitionEasing(e.target.value as TransitionEasing)}
+                        className="w-full appearance-none pl-2 pr-6 py-1 text-xs rounded-md border border-border outline-none bg-background text-foreground truncate cursor-pointer focus:ring-2 focus:ring-ring"
+                      >
+                        {TRANSITION_EASINGS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                      </select>
+                      <IconChevronDown size={12} stroke={2} aria-hidden="true" className="absolute right-2 top-1/2 -translate-y-1/2 pointer-events-none text-muted-foreground" />
+                    </div>
+                  </div>
                 </div>
               </fieldset>
 
-              {/* Inset shadow */}
+              {/* Shadow colour output */}
               <fieldset className="pt-4 border-t border-border p-0 m-0">
-                <legend className="sr-only">Inset Shadow</legend>
-                <div className="flex items-center justify-between mb-2">
-                  <span className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider">Inset Shadow</span>
-                  <InlineColorPicker label="Inset shadow" value={insetShadowColor} onChange={setInsetShadowColor} />
-                </div>
-                <div className="space-y-1">
-                  <SliderRow label="X Offset" value={insetX}       min={-50} max={50}  step={1} onChange={setInsetX}       unit="px" />
-                  <SliderRow label="Y Offset" value={insetY}       min={-50} max={50}  step={1} onChange={setInsetY}       unit="px" />
-                  <SliderRow label="Blur"     value={insetBlur}    min={0}   max={100} step={1} onChange={setInsetBlur}    unit="px" />
-                  <SliderRow label="Spread"   value={insetSpread}  min={-50} max={50}  step={1} onChange={setInsetSpread}  unit="px" />
-                  <SliderRow label="Opacity"  value={insetOpacity} min={0}   max={100} step={1} onChange={setInsetOpacity} unit="%"  />
+                <legend className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider mb-2">
+                  Shadow Colour Output
+                </legend>
+                <div role="radiogroup" aria-label="Colour space for exported shadows" className="flex gap-1 p-1 rounded-lg shadow-inner bg-muted">
+                  {COLOR_SPACES.map(opt => (
+                    <button
+                      key={opt.value}
+                      role="radio"
+                      aria-checked={colorSpace === opt.value}
+                      onClick={() => setColorSpace(opt.value)}
+                      className={`relative flex-1 h-7 text-[11px] font-medium rounded-md flex items-center justify-center transition-colors z-10 ${colorSpace === opt.value ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
+                    >
+                      {colorSpace === opt.value && (
+                        <motion.div layoutId="active-color-space" className="absolute inset-0 rounded-md bg-background shadow-sm" transition={SPRING} />
+                      )}
+                      <span className="relative z-20">{opt.label}</span>
+                    </button>
+                  ))}
                 </div>
               </fieldset>
+
+              <div className="pt-4 border-t border-border">
+                <HistoryPanel entries={history.entries} index={history.index} onJump={history.jump} onClear={history.clear} />
+              </div>
             </div>
           </CardContent>
 
@@ -0,0 +1,149 @@
+import {
+  buildBackdropFilter, getBlurLayers, getEdgeStates, getGradientLine, getMaskStops, getTintLayers, hexToRgb, isLayered,
+  type BlurState, type MaskStop,
+} from './blur-utils';
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+export type RenderSize = {
+  /** Size of the preview box the blur was tuned in, used to crop and to scale the blur radius. */
+  displayWidth: number;
+  displayHeight: number;
+  /** Caps output pixels per display pixel; defaults to the image's native density. */
+  maxScale?: number;
+};
+
+export type BakeOptions = RenderSize & {
+  format: ImageFormat;
+  /** 0–1, ignored for PNG. */
+  quality: number;
+};
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new window.Image();
+    // Remote samples must be CORS-enabled or the canvas becomes tainted and can't be exported
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Image failed to load'));
+    img.src = src;
+  });
+}
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d')! };
+}
+
+/**
+ * Fills the canvas with the mask gradient, matching the CSS gradient the preview uses.
+ * Masks only need the alpha; tints pass their own `color`.
+ */
+export function paintMask(ctx: CanvasRenderingContext2D, state: BlurState, stops: MaskStop[], color = [0, 0, 0]) {
+  const { width: w, height: h } = ctx.canvas;
+  const addStops = (gradient: CanvasGradient) => {
+    for (const s of stops) gradient.addColorStop(Math.min(1, Math.max(0, s.position / 100)), `rgba(${color.join(', ')}, ${s.opacity})`);
+    return gradient;
+  };
+
+  ctx.save();
+  if (state.shape === 'linear') {
+    const { x1, y1, x2, y2 } = getGradientLine(state, w, h);
+    ctx.fillStyle = addStops(ctx.createLinearGradient(x1, y1, x2, y2));
+    ctx.fillRect(0, 0, w, h);
+  } else {
+    const cx = (state.centerX / 100) * w;
+    const cy = (state.centerY / 100) * h;
+    const sideX = Math.max(cx, w - cx);
+    const sideY = Math.max(cy, h - cy);
+    // farthest-corner: a circle through the corner, or the farthest-side ellipse scaled by √2
+    const rx = state.shape === 'radial' ? Math.hypot(sideX, sideY) : sideX * Math.SQRT2;
+    const ry = state.shape === 'radial' ? rx : sideY * Math.SQRT2;
+    const squash = ry / rx;
+    ctx.translate(cx, cy);
+    ctx.scale(1, squash);
+    ctx.fillStyle = addStops(ctx.createRadialGradient(0, 0, 0, 0, 0, rx * (state.radius / 100)));
+    ctx.fillRect(-cx, -cy / squash, w, h / squash);
+  }
+  ctx.restore();
+}
+
+/**
+ * Draws `source` blurred by `radius`, followed by the state's extra filters. The source is first
+ * extended by stretching its edge pixels, so the blur doesn't pull transparent black in from outside
+ * the image the way canvas filters do.
+ */
+function blurredCopy(source: HTMLCanvasElement, radius: number, filters: BlurState['filters']): HTMLCanvasElement {
+  const { width: w, height: h } = source;
+  const pad = Math.ceil(radius * 3);
+  const padded = createCanvas(w + pad * 2, h + pad * 2);
+  const p = padded.ctx;
+  p.drawImage(source, pad, pad);
+  if (pad > 0) {
+    p.drawImage(source, 0, 0, w, 1, pad, 0, w, pad);
+    p.drawImage(source, 0, h - 1, w, 1, pad, pad + h, w, pad);
+    p.drawImage(padded.canvas, pad, 0, 1, h + pad * 2, 0, 0, pad, h + pad * 2);
+    p.drawImage(padded.canvas, pad + w - 1, 0, 1, h + pad * 2, pad + w, 0, pad, h + pad * 2);
+  }
+
+  const out = createCanvas(w, h);
+  out.ctx.filter = buildBackdropFilter(`${radius}px`, filters);
+  out.ctx.drawImage(padded.canvas, -pad, -pad);
+  out.ctx.filter = 'none';
+  return out.canvas;
+}
+
+/**
+ * Renders the progressive blur and tint over a loaded image. The output covers the same
+ * object-cover crop the preview shows, with the blur radius scaled to the output's pixel density.
+ */
+export function renderProgressiveBlur(img: HTMLImageElement, state: BlurState, size: RenderSize): HTMLCanvasElement {
+  const { naturalWidth: iw, naturalHeight: ih } = img;
+
+  const displayRatio = size.displayWidth / size.displayHeight;
+  const cropW = Math.round(Math.min(iw, ih * displayRatio));
+  const cropH = Math.round(Math.min(ih, iw / displayRatio));
+  const fit = Math.min(1, (size.maxScale ?? Infinity) * size.displayWidth / cropW);
+  const outW = Math.round(cropW * fit), outH = Math.round(cropH * fit);
+  const scale = outW / size.displayWidth;
+
+  const base = createCanvas(outW, outH);
+  base.ctx.drawImage(img, (iw - cropW) / 2, (ih - cropH) / 2, cropW, cropH, 0, 0, outW, outH);
+
+  const passes = isLayered(state)
+    ? getBlurLayers(state).map(layer => ({ blur: layer.blur, masks: [{ state, stops: layer.stops }] }))
+    : [{ blur: state.blur, masks: getEdgeStates(state).map(edge => ({ state: edge, stops: getMaskStops(edge) })) }];
+
+  const out = createCanvas(outW, outH);
+  out.ctx.drawImage(base.canvas, 0, 0);
+  for (const pass of passes) {
+    // Edge gradients are painted over each other first, so the blur keeps their union
+    const mask = createCanvas(outW, outH);
+    for (const m of pass.masks) paintMask(mask.ctx, m.state, m.stops);
+
+    const blurred = blurredCopy(base.canvas, pass.blur * scale, state.filters);
+    const ctx = blurred.getContext('2d')!;
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(mask.canvas, 0, 0);
+    out.ctx.drawImage(blurred, 0, 0);
+  }
+
+  const tint = hexToRgb(state.tint.color);
+  for (const layer of getTintLayers(state)) paintMask(out.ctx, layer.state, layer.stops, tint);
+
+  return out.canvas;
+}
+
+/** Encodes the rendered blur at the image's native pixel density. */
+export async function bakeProgressiveBlur(src: string, state: BlurState, options: BakeOptions): Promise<Blob> {
+  const canvas = renderProgressiveBlur(await loadImage(src), state, options);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Encoding failed'))),
+      `image/${options.format}`,
+      options.format === 'png' ? undefined : options.quality,
+    );
+  });
+}
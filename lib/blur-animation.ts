@@ -0,0 +1,171 @@
+import {
+  blurDeclarations, buildBackdropFilter, buildMaskImage, buildTintImage, getMaskStops, getStopScale, wrapGradient,
+  BACKDROP_FILTERS, DEFAULT_BLUR_STATE,
+  type BlurState, type MaskStop,
+} from './blur-utils';
+
+export const TIMING_FUNCTIONS = ['ease', 'ease-in', 'ease-out', 'ease-in-out', 'linear'] as const;
+export type TimingFunction = (typeof TIMING_FUNCTIONS)[number];
+
+export type BlurAnimation = {
+  from: BlurState;
+  /** Also supplies the gradient shape, direction and centre, which can't interpolate. */
+  to: BlurState;
+  /** Milliseconds. */
+  duration: number;
+  timing: TimingFunction;
+};
+
+/** Fades the current configuration in from no blur and no extra filters at all. */
+export function defaultAnimation(state: BlurState): BlurAnimation {
+  return { from: { ...state, blur: 0, filters: DEFAULT_BLUR_STATE.filters }, to: state, duration: 600, timing: 'ease-out' };
+}
+
+/** Resamples a stop list to `count` stops by walking along it, so the curve keeps its shape. */
+function resampleStops(stops: MaskStop[], count: number): MaskStop[] {
+  if (stops.length === count) return stops;
+  return Array.from({ length: count }, (_, j) => {
+    const u = (j / (count - 1)) * (stops.length - 1);
+    const i = Math.min(Math.floor(u), stops.length - 2);
+    const f = u - i;
+    const a = stops[i], b = stops[i + 1];
+    return {
+      opacity:  a.opacity + (b.opacity - a.opacity) * f,
+      position: a.position + (b.position - a.position) * f,
+    };
+  });
+}
+
+/** Mask stops for both ends, with equal counts and positions already scaled for the shape. */
+function pairStops({ from, to }: BlurAnimation): [MaskStop[], MaskStop[]] {
+  const a = getMaskStops(from);
+  const b = getMaskStops(to);
+  const count = Math.max(a.length, b.length);
+  const scaled = (stops: MaskStop[], state: BlurState) =>
+    resampleStops(stops, count).map(s => ({ opacity: s.opacity, position: s.position * getStopScale(state) }));
+  return [scaled(a, from), scaled(b, to)];
+}
+
+/**
+ * Registered properties and `@keyframes` for a blur transition, plus the declarations that read
+ * them. Gradients can't interpolate on their own, so the radius and every stop that changes are
+ * `@property`-registered custom properties the gradient reads from; extra filters that change are
+ * animated the same way. Multi-edge masks have a
+ * gradient per edge that can't be paired up, so they keep the "to" mask and only the radius moves.
+ */
+function animatedBlur(animation: BlurAnimation, className: string) {
+  const { from, to } = animation;
+  const [a, b] = pairStops(animation);
+
+  const properties: string[] = [];
+  const fromValues: string[] = [];
+  const toValues: string[] = [];
+
+  // Values that are the same at both ends are written inline
+  const animated = (name: string, syntax: string, start: string, end: string, always = false) => {
+    if (start === end && !always) return start;
+    const prop = `--${className}-${name}`;
+    properties.push(`@property ${prop} {\n  syntax: '${syntax}';\n  inherits: false;\n  initial-value: ${start};\n}`);
+    fromValues.push(`    ${prop}: ${start};`);
+    toValues.push(`    ${prop}: ${end};`);
+    return `var(${prop})`;
+  };
+
+  const blur = animated('radius', '<length>', `${from.blur}px`, `${to.blur}px`, true);
+  // A filter that's neutral at both ends stays out of the chain
+  const extras = BACKDROP_FILTERS
+    .filter(f => from.filters[f.name] !== f.neutral || to.filters[f.name] !== f.neutral)
+    .map(f => {
+      const syntax = f.unit === 'deg' ? '<angle>' : '<percentage>';
+      return `${f.name}(${animated(f.name, syntax, `${from.filters[f.name]}${f.unit}`, `${to.filters[f.name]}${f.unit}`)})`;
+    });
+  const filter = [`blur(${blur})`, ...extras].join(' ');
+
+  const keyframes = () => `@keyframes ${className}-in {\n  from {\n${fromValues.join('\n')}\n  }\n  to {\n${toValues.join('\n')}\n  }\n}`;
+  if (from.multiEdge || to.multiEdge) {
+    return { rules: [...properties, keyframes()], declarations: blurDeclarations(filter, buildMaskImage(to), to.multiEdge) };
+  }
+
+  const list = a
+    .map((s, i) => {
+      const opacity  = animated(`o${i}`, '<number>', s.opacity.toFixed(3), b[i].opacity.toFixed(3));
+      const position = animated(`p${i}`, '<percentage>', `${s.position.toFixed(1)}%`, `${b[i].position.toFixed(1)}%`);
+      return `rgba(0, 0, 0, ${opacity}) ${position}`;
+    })
+    .join(', ');
+
+  return { rules: [...properties, keyframes()], declarations: blurDeclarations(filter, wrapGradient(to, list)) };
+}
+
+/** Static rule for the tint element that sits next to the overlay, or `null` without a tint. */
+function tintRule(state: BlurState, className: string): string | null {
+  const tint = buildTintImage(state);
+  if (!tint) return null;
+  return `/* Tint: <div class="${className}-tint" aria-hidden="true"></div> next to the overlay */
+.${className}-tint {
+  position: absolute;
+  inset: 0;
+  pointer-events: none;
+  background-image: ${tint};
+}`;
+}
+
+const tintKeyframes = (className: string) => `@keyframes ${className}-tint-in {\n  from {\n    opacity: 0;\n  }\n}`;
+
+/**
+ * `@keyframes` for a blur transition. The animation is always a single masked layer; layered
+ * states animate their top blur radius, which the animation controls point out. A tint fades in alongside unless the start already has one.
+ */
+export function buildAnimationCss(animation: BlurAnimation, className = 'smooth-blur'): string {
+  const { rules, declarations } = animatedBlur(animation, className);
+  const timing = `${animation.duration}ms ${animation.timing} both`;
+  const rule = `.${className} {\n${declarations}\n  animation: ${className}-in ${timing};\n}`;
+
+  const tint = tintRule(animation.to, className);
+  if (!tint) return [...rules, rule].join('\n\n');
+  if (animation.from.tint.enabled) return [...rules, rule, tint].join('\n\n');
+  const tintAnimation = `.${className}-tint {\n  animation: ${className}-tint-in ${timing};\n}`;
+  return [...rules, tintKeyframes(className), rule, tint, tintAnimation].join('\n\n');
+}
+
+export const VIEW_RANGES = ['cover', 'contain', 'entry', 'exit'] as const;
+export type ViewRange = (typeof VIEW_RANGES)[number];
+
+export type ScrollTimeline = {
+  /** `scroll` follows the nearest scroller, `view` follows the element crossing the viewport. */
+  source: 'scroll' | 'view';
+  /** Named timeline range, only used with `view`. */
+  range: ViewRange;
+  /** Pixels of scroll for `scroll`, percentages of `range` for `view`. */
+  start: number;
+  end: number;
+};
+
+export const DEFAULT_SCROLL_TIMELINE: ScrollTimeline = { source: 'scroll', range: 'exit', start: 0, end: 200 };
+
+/**
+ * Blur that builds up from none to the state's full radius as the page scrolls. Browsers without
+ * scroll-driven animations get the full blur straight away.
+ */
+export function buildScrollCss(state: BlurState, timeline: ScrollTimeline, className = 'smooth-blur'): string {
+  const { rules, declarations } = animatedBlur({ ...defaultAnimation(state), timing: 'linear' }, className);
+  const range = timeline.source === 'scroll'
+    ? `${timeline.start}px ${timeline.end}px`
+    : `${timeline.range} ${timeline.start}% ${timeline.range} ${timeline.end}%`;
+
+  const filter = buildBackdropFilter(`${state.blur}px`, state.filters);
+  const fallback = `.${className} {\n${blurDeclarations(filter, buildMaskImage(state), state.multiEdge)}\n}`;
+  // `animation` resets the timeline, so the timeline and range have to come after it
+  const scrollAnimation = (name: string) =>
+    `    animation: ${name} linear both;\n    animation-timeline: ${timeline.source}();\n    animation-range: ${range};`;
+
+  const tint = tintRule(state, className);
+  const tintScrolled = tint ? `\n\n  .${className}-tint {\n${scrollAnimation(`${className}-tint-in`)}\n  }` : '';
+  const scrolled = `@supports (animation-timeline: scroll()) {
+  .${className} {
+${declarations.replace(/^/gm, '  ')}
+${scrollAnimation(`${className}-in`)}
+  }${tintScrolled}
+}`;
+  return [fallback, ...(tint ? [tint] : []), ...rules, ...(tint ? [tintKeyframes(className)] : []), scrolled].join('\n\n');
+}
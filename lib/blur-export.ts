@@ -0,0 +1,559 @@
+import {
+  blurDeclarations, buildBackdropFilter, buildMaskImage, buildTintImage, getBlurLayers, getEdgeStates, getExtraFilters,
+  getGradientDirection, getGradientLine, getMaskStops, getUniformPrecision, isLayered, EASING_SOURCES, EDGES,
+  type BlurState, type EasingPreset, type EasingVariant, type MaskStop,
+} from './blur-utils';
+import {
+  buildAnimationCss, buildScrollCss, defaultAnimation, DEFAULT_SCROLL_TIMELINE,
+  type BlurAnimation, type ScrollTimeline,
+} from './blur-animation';
+
+export type ExportFormat = 'css' | 'tailwind' | 'tailwind-v4' | 'animation' | 'scroll' | 'react' | 'vue' | 'svelte' | 'svg';
+
+/** A named configuration exported alongside the current one, e.g. a saved preset. */
+export type BlurVariant = { name: string; state: BlurState };
+
+/** Extra inputs some formats use besides the current state. */
+export type ExportContext = {
+  variants?: BlurVariant[];
+  animation?: BlurAnimation;
+  scroll?: ScrollTimeline;
+};
+
+/** Formats that are complete files and can be downloaded as well as copied. */
+export const EXPORT_FILENAMES: Partial<Record<ExportFormat, string>> = {
+  react:  'ProgressiveBlur.tsx',
+  vue:    'ProgressiveBlur.vue',
+  svelte: 'ProgressiveBlur.svelte',
+};
+
+/** TypeScript source declaring `name(t)`, `ease(t)` by default, for the state's curve. */
+function easingSource(state: BlurState, name = 'ease'): string {
+  if (state.preset === 'custom') {
+    return `// Easing: cubic-bezier(${state.bezier.join(', ')})
+function ${name}(t: number): number {
+  if (t <= 0) return 0;
+  if (t >= 1) return 1;
+  const [x1, y1, x2, y2] = [${state.bezier.join(', ')}];
+  const coord = (p1: number, p2: number, u: number) =>
+    3 * (1 - u) * (1 - u) * u * p1 + 3 * (1 - u) * u * u * p2 + u * u * u;
+  let lo = 0, hi = 1, u = t;
+  while (hi - lo > 1e-6) {
+    if (coord(x1, x2, u) < t) lo = u; else hi = u;
+    u = (lo + hi) / 2;
+  }
+  return coord(y1, y2, u);
+}`;
+  }
+  // Same fallback as `getEasing`: a preset without a curve eases linearly
+  const preset = Object.hasOwn(EASING_SOURCES, state.preset) ? state.preset as EasingPreset : 'linear';
+  const source = EASING_SOURCES[preset];
+  const body = typeof source === 'string' ? source : source[state.easingType as EasingVariant];
+  const label = preset === 'linear' ? 'linear' : `${preset} ${state.easingType}`;
+  return `// Easing: ${label}\nconst ${name} = (t: number): number => ${body};`;
+}
+
+const backdropFilter = (state: BlurState, blur: number) => buildBackdropFilter(`${blur}px`, state.filters);
+
+const OVERLAY_POSITION = '  position: absolute;\n  inset: 0;\n  pointer-events: none;';
+
+/** Markup for the overlay: a single element, or a container with one child per layer. */
+function overlayMarkup(state: BlurState): string {
+  if (!isLayered(state)) return '<div class="smooth-blur" aria-hidden="true"></div>';
+  const children = Array.from({ length: state.layerCount }, () => '  <div></div>').join('\n');
+  return `<div class="smooth-blur" aria-hidden="true">\n${children}\n</div>`;
+}
+
+/** Stylesheet rules for the overlay; `positioned` also pins a single-layer overlay over its parent. */
+function overlayRules(state: BlurState, positioned: boolean): string[] {
+  if (!isLayered(state)) {
+    const position = positioned ? `${OVERLAY_POSITION}\n` : '';
+    return [`.smooth-blur {\n${position}${blurDeclarations(backdropFilter(state, state.blur), buildMaskImage(state), state.multiEdge)}\n}`];
+  }
+  return [
+    `.smooth-blur {\n${OVERLAY_POSITION}\n}`,
+    `.smooth-blur > div {\n  position: absolute;\n  inset: 0;\n}`,
+    ...getBlurLayers(state).map((layer, i) =>
+      `.smooth-blur > div:nth-child(${i + 1}) {\n${blurDeclarations(backdropFilter(state, layer.blur), layer.maskImage)}\n}`,
+    ),
+  ];
+}
+
+// The tint is a sibling of the overlay; inside it, the blur's mask would cut into the tint too
+const tintMarkup = (state: BlurState) =>
+  state.tint.enabled ? '<div class="smooth-blur-tint" aria-hidden="true"></div>' : '';
+
+function tintRules(state: BlurState): string[] {
+  const tint = buildTintImage(state);
+  return tint ? [`.smooth-blur-tint {\n${OVERLAY_POSITION}\n  background-image: ${tint};\n}`] : [];
+}
+
+/** Overlay and tint markup, for formats where they're the whole component. */
+const componentMarkup = (state: BlurState) => [overlayMarkup(state), tintMarkup(state)].filter(Boolean).join('\n');
+const componentRules = (state: BlurState) => [...overlayRules(state, true), ...tintRules(state)];
+
+const indent = (text: string) => text.split('\n').map(line => (line ? `  ${line}` : line)).join('\n');
+
+function exportCss(state: BlurState): string {
+  if (!isLayered(state) && !state.tint.enabled) return overlayRules(state, false)[0];
+  return `${componentMarkup(state)}\n\n<style>\n${componentRules(state).join('\n\n')}\n</style>`;
+}
+
+function exportVue(state: BlurState): string {
+  return `<template>\n${indent(componentMarkup(state))}\n</template>\n\n<style scoped>\n${componentRules(state).join('\n\n')}\n</style>\n`;
+}
+
+// Svelte scopes component styles by default
+function exportSvelte(state: BlurState): string {
+  return `${componentMarkup(state)}\n\n<style>\n${componentRules(state).join('\n\n')}\n</style>\n`;
+}
+
+// Class names can't contain spaces; Tailwind turns underscores in arbitrary values back into them
+const arbitrary = (property: string, value: string) =>
+  `[${property}:${value.replace(/,\s+/g, ',').replace(/ /g, '_')}]`;
+
+// Tailwind's backdrop filter utilities always chain in its own order, so extra filters need the raw property
+function tailwindFilterClasses(state: BlurState, blur: number): string {
+  if (getExtraFilters(state.filters).length === 0) return `backdrop-blur-[${blur}px]`;
+  const filter = backdropFilter(state, blur);
+  return `${arbitrary('backdrop-filter', filter)} ${arbitrary('-webkit-backdrop-filter', filter)}`;
+}
+
+const tailwindLayerClasses = (state: BlurState, blur: number, maskImage: string, composite = false) =>
+  `${tailwindFilterClasses(state, blur)} ${arbitrary('mask-image', maskImage)} ${arbitrary('-webkit-mask-image', maskImage)}` +
+  (composite ? ' [mask-composite:add] [-webkit-mask-composite:source-over]' : '');
+
+function exportTailwind(state: BlurState): string {
+  let overlay: string;
+  if (!isLayered(state)) {
+    overlay = `<div className="pointer-events-none absolute inset-0 ${tailwindLayerClasses(state, state.blur, buildMaskImage(state), state.multiEdge)}"></div>`;
+  } else {
+    const layers = getBlurLayers(state).map(layer =>
+      `  <div className="absolute inset-0 ${tailwindLayerClasses(state, layer.blur, layer.maskImage)}" />`,
+    );
+    overlay = `<div className="pointer-events-none absolute inset-0">\n${layers.join('\n')}\n</div>`;
+  }
+
+  const tint = buildTintImage(state);
+  if (!tint) return overlay;
+  return `<>\n${indent(overlay)}\n  <div className="pointer-events-none absolute inset-0 ${arbitrary('background-image', tint)}" />\n</>`;
+}
+
+const slug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+function tailwindUtility(name: string, state: BlurState): string {
+  const tint = buildTintImage(state);
+  const tintUtility = tint ? `\n\n@utility ${name}-tint {\n${OVERLAY_POSITION}\n  background-image: ${tint};\n}` : '';
+  if (!isLayered(state)) {
+    return `@utility ${name} {\n${OVERLAY_POSITION}\n${blurDeclarations(backdropFilter(state, state.blur), buildMaskImage(state), state.multiEdge)}\n}${tintUtility}`;
+  }
+  const layers = getBlurLayers(state).map((layer, i) =>
+    `  & > :nth-child(${i + 1}) {\n${indent(blurDeclarations(backdropFilter(state, layer.blur), layer.maskImage))}\n  }`,
+  );
+  return `@utility ${name} {\n${OVERLAY_POSITION}\n\n  & > * {\n    position: absolute;\n    inset: 0;\n  }\n\n${layers.join('\n\n')}\n}${tintUtility}`;
+}
+
+/**
+ * Tailwind v4 `@utility` blocks for the current state and each variant, for the project's main
+ * stylesheet. Variant names are slugged and de-duplicated into `progressive-blur-<name>`.
+ */
+function exportTailwindV4(state: BlurState, variants: BlurVariant[]): string {
+  const used = new Set(['progressive-blur']);
+  const utilities = [{ name: 'progressive-blur', state }];
+  for (const variant of variants) {
+    const base = `progressive-blur-${slug(variant.name) || 'preset'}`;
+    let name = base;
+    for (let n = 2; used.has(name); n++) name = `${base}-${n}`;
+    used.add(name);
+    utilities.push({ name, state: variant.state });
+  }
+
+  const usage = utilities.map(({ name, state: s }) => {
+    const children = isLayered(s) ? Array.from({ length: s.layerCount }, () => '<div></div>').join('') : '';
+    const tint = s.tint.enabled ? `<div class="${name}-tint" aria-hidden="true"></div>` : '';
+    return `  <div class="${name}" aria-hidden="true">${children}</div>${tint}`;
+  });
+
+  return `/* Add to the stylesheet that imports tailwindcss, then use:\n${usage.join('\n')}\n*/\n\n${utilities.map(u => tailwindUtility(u.name, u.state)).join('\n\n')}`;
+}
+
+/** Source for the component's default `edges`: one eased fade per enabled edge of a multi-edge state. */
+function edgesSource(state: BlurState): string {
+  if (!state.multiEdge) return 'const EDGES: EdgeFade[] = [];';
+  const enabled = EDGES.filter(edge => state.edges[edge].enabled);
+  const name = (edge: string) => `ease${edge[0].toUpperCase()}${edge.slice(1)}`;
+  const curves = enabled.map(edge => easingSource({ ...state, ...state.edges[edge] }, name(edge)));
+  const rows = enabled.map(edge => `  { side: '${edge}', height: ${state.edges[edge].height}, ease: ${name(edge)} },`);
+  return `${curves.join('\n\n')}\n\nconst EDGES: EdgeFade[] = [\n${rows.join('\n')}\n];`;
+}
+
+/** Source for the component's default `tint`. */
+function tintSource(state: BlurState): string {
+  const { tint } = state;
+  if (!tint.enabled) return 'const TINT: Tint | null = null;';
+  if (tint.followBlur) return `const TINT: Tint | null = { color: '${tint.color}', opacity: ${tint.opacity / 100} };`;
+  const curve = easingSource({ ...state, preset: tint.preset, easingType: tint.easingType }, 'easeTint');
+  return `${curve}\n\nconst TINT: Tint | null = { color: '${tint.color}', opacity: ${tint.opacity / 100}, ease: easeTint };`;
+}
+
+/**
+ * Source for the component's default `stops`: the hand-edited stops, or the auto-precision fit,
+ * which the component has no fitter for. Multi-edge and layered fades compute their own from `precision`.
+ */
+function stopsSource(state: BlurState): string {
+  const fitted = state.autoPrecision && !state.multiEdge && !isLayered(state);
+  if (!state.manualStops && !fitted) return 'const STOPS: Stop[] | null = null;';
+  const rows = getMaskStops(state).map(s => `  { opacity: ${s.opacity.toFixed(3)}, position: ${s.position.toFixed(1)} },`);
+  const comment = state.manualStops ? '' : `// Fitted to the easing curve within ${state.tolerance}% opacity\n`;
+  return `${comment}const STOPS: Stop[] | null = [\n${rows.join('\n')}\n];`;
+}
+
+function exportReact(state: BlurState): string {
+  return `import type { CSSProperties } from 'react';
+
+export interface ProgressiveBlurProps {
+  /** Blur radius in px at the strongest point. */
+  blur?: number;
+  /** Length of the fade as a percentage of the gradient. */
+  height?: number;
+  /** Number of steps used to approximate the easing curve. */
+  precision?: number;
+  /** Radial shapes fade outwards from \`centerX\`/\`centerY\`. */
+  shape?: 'linear' | 'radial' | 'elliptical';
+  /** Linear direction: a keyword such as \`to top\` or an angle such as \`135deg\`. */
+  direction?: string;
+  centerX?: number;
+  centerY?: number;
+  /** Radial extent as a percentage of the distance to the farthest corner. */
+  radius?: number;
+  /** Keep the start sharp and blur the far end instead. */
+  reverse?: boolean;
+  /** Stack this many layers with increasing blur; 1 renders a single masked layer. */
+  layers?: number;
+  /** Blur several edges at once; replaces shape, direction, height, reverse and layers. */
+  edges?: EdgeFade[];
+  /** Colour gradient drawn over the blur, following the same fade; \`null\` for none. */
+  tint?: Tint | null;
+  /** Filter functions chained after the blur, e.g. \`saturate(180%) brightness(110%)\`. */
+  filters?: string;
+  /** Exact mask stops, replacing height, precision, reverse and the easing curve; \`null\` to compute them. */
+  stops?: Stop[] | null;
+  className?: string;
+}
+
+export interface EdgeFade {
+  side: 'top' | 'right' | 'bottom' | 'left';
+  /** Length of the fade as a percentage of the element. */
+  height: number;
+  /** Defaults to the component's easing curve. */
+  ease?: (t: number) => number;
+}
+
+export interface Tint {
+  /** \`#rrggbb\` */
+  color: string;
+  /** Opacity at the strongest point, 0–1. */
+  opacity: number;
+  /** Defaults to the blur's easing curve. */
+  ease?: (t: number) => number;
+}
+
+export interface Stop {
+  /** 0–1 */
+  opacity: number;
+  /** Percentage along the gradient, before radial shapes scale it by \`radius\`. */
+  position: number;
+}
+
+type GradientProps = Required<Pick<ProgressiveBlurProps, 'shape' | 'direction' | 'centerX' | 'centerY' | 'radius'>>;
+type Fade = { height: number; reverse: boolean; ease: (t: number) => number; gradient: GradientProps; stops?: Stop[] };
+
+${easingSource(state)}
+
+${edgesSource(state)}
+
+${tintSource(state)}
+
+${stopsSource(state)}
+
+// A gradient running away from an edge starts at that edge
+const AWAY_FROM = { top: 'to bottom', right: 'to left', bottom: 'to top', left: 'to right' } as const;
+
+const clamp = (v: number) => Math.min(1, Math.max(0, v));
+
+function hexToRgb(hex: string): string {
+  const n = parseInt(hex.replace('#', ''), 16);
+  return \`\${(n >> 16) & 255}, \${(n >> 8) & 255}, \${n & 255}\`;
+}
+
+function toGradient(stops: Stop[], { shape, direction, centerX, centerY, radius }: GradientProps, rgb = '0, 0, 0', alpha = 1): string {
+  const scale = shape === 'linear' ? 1 : radius / 100;
+  const list = stops
+    .map(s => \`rgba(\${rgb}, \${(s.opacity * alpha).toFixed(3)}) \${(s.position * scale).toFixed(1)}%\`)
+    .join(', ');
+  if (shape === 'linear') return \`linear-gradient(\${direction}, \${list})\`;
+  return \`radial-gradient(\${shape === 'radial' ? 'circle' : 'ellipse'} farthest-corner at \${centerX}% \${centerY}%, \${list})\`;
+}
+
+function getStops(height: number, precision: number, reverse: boolean, curve = ease): Stop[] {
+  const stops: Stop[] = [];
+  for (let i = 0; i <= precision; i++) {
+    const t = i / precision;
+    const eased = clamp(curve(t));
+    stops.push({ opacity: reverse ? eased : 1 - eased, position: t * height });
+  }
+  if (height < 100) stops.push({ opacity: reverse ? 1 : 0, position: 100 });
+  return stops;
+}
+
+// Each layer covers a band that cross-fades with its neighbours; its radius follows the easing curve
+function getLayerStops(k: number, n: number, height: number, reverse: boolean): Stop[] {
+  const band = (x: number) => {
+    const peak = k / n;
+    if (x >= peak) return k === n ? 1 : Math.max(0, 1 - (x - peak) * n);
+    return Math.max(0, 1 - (peak - x) * n);
+  };
+  const xs = [0, (k - 1) / n, k / n, (k + 1) / n, 1].filter((x, i, arr) => x <= 1 && arr.indexOf(x) === i);
+  const stops = xs
+    .map(x => ({ opacity: band(x), position: (reverse ? x : 1 - x) * height }))
+    .sort((a, b) => a.position - b.position);
+  if (height < 100) stops.push({ opacity: band(reverse ? 1 : 0), position: 100 });
+  return stops;
+}
+
+function layerStyle(blur: number, maskImage: string, filters: string): CSSProperties {
+  const backdropFilter = [\`blur(\${blur}px)\`, filters].filter(Boolean).join(' ');
+  return {
+    position: 'absolute',
+    inset: 0,
+    backdropFilter,
+    WebkitBackdropFilter: backdropFilter,
+    maskImage,
+    WebkitMaskImage: maskImage,
+  };
+}
+
+export function ProgressiveBlur({
+  blur = ${state.blur},
+  height = ${state.height},
+  precision = ${state.precision},
+  shape = '${state.shape}',
+  direction = '${getGradientDirection(state)}',
+  centerX = ${state.centerX},
+  centerY = ${state.centerY},
+  radius = ${state.radius},
+  reverse = ${state.reverse},
+  layers = ${isLayered(state) ? state.layerCount : 1},
+  edges = EDGES,
+  tint = TINT,
+  filters = '${getExtraFilters(state.filters).join(' ')}',
+  stops = STOPS,
+  className,
+}: ProgressiveBlurProps) {
+  const gradient = { shape, direction, centerX, centerY, radius };
+  // Each edge is its own mask layer; \`add\` compositing blurs the union of them
+  const fades: Fade[] = edges.length > 0
+    ? edges.map(edge => ({
+        height: edge.height,
+        reverse: false,
+        ease: edge.ease ?? ease,
+        gradient: { ...gradient, shape: 'linear', direction: AWAY_FROM[edge.side] },
+      }))
+    : [{ height, reverse, ease, gradient, stops: stops ?? undefined }];
+  // Manual stops only stand in for the blur's own curve; a tint with its own easing still computes
+  const stopsFor = (f: Fade, curve?: (t: number) => number) =>
+    f.stops && !curve ? f.stops : getStops(f.height, precision, f.reverse, curve ?? f.ease);
+
+  // The tint is a sibling so the blur's mask doesn't cut into it
+  const tintLayer = tint && (
+    <div
+      aria-hidden="true"
+      style={{
+        position: 'absolute',
+        inset: 0,
+        pointerEvents: 'none',
+        backgroundImage: fades
+          .map(f => toGradient(stopsFor(f, tint.ease), f.gradient, hexToRgb(tint.color), tint.opacity))
+          .join(', '),
+      }}
+    />
+  );
+
+  if (edges.length > 0 || layers <= 1 || stops) {
+    const maskImage = fades.map(f => toGradient(stopsFor(f), f.gradient)).join(', ');
+    return (
+      <>
+        <div
+          className={className}
+          style={{ ...layerStyle(blur, maskImage, filters), maskComposite: 'add', WebkitMaskComposite: 'source-over', pointerEvents: 'none' }}
+        />
+        {tintLayer}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div className={className} style={{ position: 'absolute', inset: 0, pointerEvents: 'none' }}>
+        {Array.from({ length: layers }, (_, i) => {
+          const layerBlur = Math.round(blur * clamp(ease((i + 1) / layers)) * 100) / 100;
+          const maskImage = toGradient(getLayerStops(i + 1, layers, height, reverse), gradient);
+          return <div key={i} style={layerStyle(layerBlur, maskImage, filters)} />;
+        })}
+      </div>
+      {tintLayer}
+    </>
+  );
+}
+`;
+}
+
+const svgNumber = (n: number) => String(Math.round(n * 10000) / 10000);
+
+/**
+ * SVG gradient for a set of mask stops. Linear and elliptical gradients use the element's bounding
+ * box (exact for keyword directions, approximate for arbitrary angles on non-square elements);
+ * circles use the viewport so they stay round, where `r` percentages resolve against the normalised
+ * diagonal and a centred circle reaches the farthest corner at 70.71%.
+ */
+function svgGradient(state: BlurState, stops: MaskStop[], id: string): string {
+  const stopTags = stops
+    .map(s => `        <stop offset="${svgNumber(s.position / 100)}" stop-color="#fff" stop-opacity="${s.opacity.toFixed(3)}" />`)
+    .join('\n');
+
+  if (state.shape === 'linear') {
+    const { x1, y1, x2, y2 } = getGradientLine(state, 1, 1);
+    return `      <linearGradient id="${id}" x1="${svgNumber(x1)}" y1="${svgNumber(y1)}" x2="${svgNumber(x2)}" y2="${svgNumber(y2)}">\n${stopTags}\n      </linearGradient>`;
+  }
+
+  const cx = state.centerX / 100, cy = state.centerY / 100;
+  const farthest = Math.hypot(Math.max(cx, 1 - cx), Math.max(cy, 1 - cy)) * (state.radius / 100);
+  const attrs = state.shape === 'radial'
+    ? `gradientUnits="userSpaceOnUse" cx="${state.centerX}%" cy="${state.centerY}%" r="${svgNumber(farthest * 100)}%"`
+    : `cx="${svgNumber(cx)}" cy="${svgNumber(cy)}" r="${svgNumber(farthest)}"`;
+  return `      <radialGradient id="${id}" ${attrs}>\n${stopTags}\n      </radialGradient>`;
+}
+
+/** SVG filter primitives matching the CSS filter functions chained after the blur. */
+function svgExtraFilters(filters: BlurState['filters']): string[] {
+  const transfer = (slope: number, intercept = 0) => {
+    const attrs = `type="linear" slope="${svgNumber(slope)}"${intercept ? ` intercept="${svgNumber(intercept)}"` : ''}`;
+    return `        <feComponentTransfer>\n${['R', 'G', 'B'].map(c => `          <feFunc${c} ${attrs} />`).join('\n')}\n        </feComponentTransfer>`;
+  };
+  const { saturate, brightness, contrast, grayscale } = filters;
+  return [
+    saturate   !== 100 && `        <feColorMatrix type="saturate" values="${svgNumber(saturate / 100)}" />`,
+    brightness !== 100 && transfer(brightness / 100),
+    contrast   !== 100 && transfer(contrast / 100, 0.5 - contrast / 200),
+    // grayscale(g) is the same matrix as saturate(1 - g)
+    grayscale  !== 0   && `        <feColorMatrix type="saturate" values="${svgNumber(1 - grayscale / 100)}" />`,
+    filters['hue-rotate'] !== 0 && `        <feColorMatrix type="hueRotate" values="${filters['hue-rotate']}" />`,
+  ].filter((p): p is string => Boolean(p));
+}
+
+/**
+ * Backdrop-filter overlay plus an SVG fallback for renderers without backdrop-filter support.
+ * SVG filters can't see what's behind an element, so the fallback re-draws the image itself,
+ * blurred with feGaussianBlur and masked by the same stops as the CSS gradient.
+ */
+function exportSvg(state: BlurState): string {
+  // Multi-edge masks get one gradient rect per edge; white rects drawn over each other add up
+  const passes = isLayered(state)
+    ? getBlurLayers(state).map(layer => ({ blur: layer.blur, masks: [{ state, stops: layer.stops }] }))
+    : [{ blur: state.blur, masks: getEdgeStates(state).map(edge => ({ state: edge, stops: getMaskStops(edge) })) }];
+
+  // CSS filter functions work in sRGB, SVG filters default to linearRGB
+  const extras = svgExtraFilters(state.filters);
+  const colorSpace = extras.length > 0 ? ' color-interpolation-filters="sRGB"' : '';
+
+  const defs: string[] = [];
+  const images: string[] = [];
+  passes.forEach((pass, i) => {
+    const suffix = passes.length > 1 ? `-${i + 1}` : '';
+    const gradientId = (j: number) => `smooth-blur-gradient${suffix}${pass.masks.length > 1 ? `-${j + 1}` : ''}`;
+    const rects = pass.masks.map((_, j) => `        <rect width="100%" height="100%" fill="url(#${gradientId(j)})" />`);
+    defs.push(
+      [
+        `      <filter id="smooth-blur-filter${suffix}" x="0" y="0" width="100%" height="100%"${colorSpace}>`,
+        `        <feGaussianBlur stdDeviation="${pass.blur}" edgeMode="duplicate" />`,
+        ...extras,
+        '      </filter>',
+      ].join('\n'),
+      ...pass.masks.map((mask, j) => svgGradient(mask.state, mask.stops, gradientId(j))),
+      `      <mask id="smooth-blur-mask${suffix}">\n${rects.join('\n')}\n      </mask>`,
+    );
+    images.push(`    <image href="your-image.jpg" width="100%" height="100%" preserveAspectRatio="xMidYMid slice" filter="url(#smooth-blur-filter${suffix})" mask="url(#smooth-blur-mask${suffix})" />`);
+  });
+
+  const markup = [
+    '<!-- Use the same image in the <img> and in every SVG <image> -->',
+    '<div class="smooth-blur-container">',
+    '  <img src="your-image.jpg" alt="" />',
+    indent(overlayMarkup(state)),
+    '  <svg class="smooth-blur-fallback" aria-hidden="true">',
+    '    <defs>',
+    ...defs,
+    '    </defs>',
+    ...images,
+    '  </svg>',
+    // After the fallback, so the tint stays on top when the fallback is shown
+    ...(state.tint.enabled ? [indent(tintMarkup(state))] : []),
+    '</div>',
+  ].join('\n');
+
+  const rules = [
+    `.smooth-blur-container {\n  position: relative;\n  overflow: hidden;\n}`,
+    `.smooth-blur-container > img {\n  display: block;\n  width: 100%;\n  height: 100%;\n  object-fit: cover;\n}`,
+    ...overlayRules(state, true),
+    ...tintRules(state),
+    `.smooth-blur-fallback {\n  display: none;\n  position: absolute;\n  inset: 0;\n  width: 100%;\n  height: 100%;\n  pointer-events: none;\n}`,
+    // Older Safari only understands the prefixed property, so it must not fall back
+    `@supports not ((backdrop-filter: blur(1px)) or (-webkit-backdrop-filter: blur(1px))) {\n  .smooth-blur { display: none; }\n  .smooth-blur-fallback { display: block; }\n}`,
+  ];
+
+  return `${markup}\n\n<style>\n${rules.join('\n\n')}\n</style>`;
+}
+
+export type PrecisionSavings = {
+  /** Stops in the mask, across every edge. */
+  stops: number;
+  /** Bytes saved over the fewest evenly spaced stops that are as accurate; can be negative. */
+  bytesSaved: number;
+};
+
+/** Whether auto precision shapes the stops, so `getPrecisionSavings` has something to report. */
+export const hasPrecisionSavings = (state: BlurState) => state.autoPrecision && !state.manualStops && !isLayered(state);
+
+// Savings by format, settings and context, so settling back on earlier settings doesn't build both exports again
+const savingsCache = new Map<string, PrecisionSavings>();
+const MAX_CACHED_SAVINGS = 50;
+
+/** What auto precision gains for `format`, or `null` when it isn't in use. */
+export function getPrecisionSavings(format: ExportFormat, state: BlurState, context: ExportContext = {}): PrecisionSavings | null {
+  if (!hasPrecisionSavings(state)) return null;
+  const key = JSON.stringify([format, state, context]);
+  const cached = savingsCache.get(key);
+  if (cached) return cached;
+
+  const uniform = { ...state, autoPrecision: false, precision: getUniformPrecision(state) };
+  const bytes = (s: BlurState) => new TextEncoder().encode(buildExportCode(format, s, context)).length;
+  const stops = getEdgeStates(state).reduce((n, edge) => n + getMaskStops(edge).length, 0);
+  const savings = { stops, bytesSaved: bytes(uniform) - bytes(state) };
+  if (savingsCache.size >= MAX_CACHED_SAVINGS) savingsCache.clear();
+  savingsCache.set(key, savings);
+  return savings;
+}
+
+export function buildExportCode(format: ExportFormat, state: BlurState, context: ExportContext = {}): string {
+  switch (format) {
+    case 'css':         return exportCss(state);
+    case 'tailwind':    return exportTailwind(state);
+    case 'tailwind-v4': return exportTailwindV4(state, context.variants ?? []);
+    case 'animation':   return buildAnimationCss(context.animation ?? defaultAnimation(state));
+    case 'scroll':      return buildScrollCss(state, context.scroll ?? DEFAULT_SCROLL_TIMELINE);
+    case 'react':       return exportReact(state);
+    case 'vue':         return exportVue(state);
+    case 'svelte':      return exportSvelte(state);
+    case 'svg':         return exportSvg(state);
+  }
+}
@@ -0,0 +1,373 @@
+import {
+  easings, getEasing, AWAY_FROM, BACKDROP_FILTERS, DEFAULT_BLUR_STATE, DIRECTION_KEYWORDS, EDGES,
+  type BlurState, type Edge, type EdgeSettings, type EasingVariant, type MaskShape, type MaskStop,
+} from './blur-utils';
+
+export type ImportedBlur = {
+  /** `null` when nothing usable was found. */
+  state: BlurState | null;
+  /** Human-readable notes about everything that couldn't be carried over exactly. */
+  issues: string[];
+};
+
+// Largest opacity difference at any stop for a curve to count as a preset match
+const FIT_TOLERANCE = 0.03;
+
+const CSS_PROPERTIES = {
+  mask:   ['mask-image', 'maskImage', '-webkit-mask-image', 'WebkitMaskImage'],
+  filter: ['backdrop-filter', 'backdropFilter', '-webkit-backdrop-filter', 'WebkitBackdropFilter'],
+};
+
+/**
+ * Turns Tailwind arbitrary values such as `[mask-image:linear-gradient(to_top,...)]` and
+ * `backdrop-blur-[15px]` into declarations. Named steps like `backdrop-blur-md` differ between
+ * Tailwind versions, so they aren't guessed at.
+ */
+function expandTailwind(source: string): string {
+  return source
+    .replace(/\[(-?[a-z-]+):([^\s"'`]+?)\](?=[\s"'`]|$)/g, (_, prop: string, value: string) => `${prop}: ${value.replace(/_/g, ' ')};`)
+    .replace(/\bbackdrop-blur-\[([^\]]+)\]/g, 'backdrop-filter: blur($1);');
+}
+
+/**
+ * Values of every declaration of any of `names`, in CSS (`name: value;`) or JSX style-object
+ * (`name: 'value'`) form. Values are read up to the end of the declaration, skipping anything
+ * inside parentheses so gradients with commas come out whole.
+ */
+function findValues(source: string, names: string[]): string[] {
+  const values: string[] = [];
+  const pattern = new RegExp(`(?:^|[\\s;{,"'\`])(${names.map(n => n.replace(/-/g, '\\-')).join('|')})\\s*:\\s*`, 'g');
+  for (const match of source.matchAll(pattern)) {
+    let i = match.index! + match[0].length;
+    const quote = /["'`]/.test(source[i]) ? source[i++] : null;
+    let depth = 0, value = '';
+    for (; i < source.length; i++) {
+      const c = source[i];
+      if (c === '(') depth++;
+      if (c === ')') depth--;
+      if (depth === 0 && (quote ? c === quote : c === ';' || c === '}' || c === '\n' || c === '"')) break;
+      value += c;
+    }
+    if (value.trim()) values.push(value.trim());
+  }
+  return values;
+}
+
+/** Splits on commas that aren't inside parentheses. */
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0, current = '';
+  for (const c of value) {
+    if (c === '(') depth++;
+    if (c === ')') depth--;
+    if (c === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += c;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/** Alpha of a CSS colour, or `null` if it isn't one this importer understands. */
+function colorAlpha(color: string): number | null {
+  const c = color.trim().toLowerCase();
+  if (c === 'transparent') return 0;
+  const hex = c.match(/^#([0-9a-f]{3,8})$/);
+  if (hex) {
+    const digits = hex[1];
+    if (digits.length === 4) return parseInt(digits[3] + digits[3], 16) / 255;
+    if (digits.length === 8) return parseInt(digits.slice(6), 16) / 255;
+    return digits.length === 3 || digits.length === 6 ? 1 : null;
+  }
+  const fn = c.match(/^(?:rgba?|hsla?|oklch|oklab|lab|lch)\((.*)\)$/);
+  if (fn) {
+    const parts = fn[1].split(/[\s,/]+/).filter(Boolean);
+    if (parts.length < 4) return 1;
+    const alpha = parts[3];
+    const n = parseFloat(alpha);
+    if (!Number.isFinite(n)) return null;
+    return Math.min(1, Math.max(0, alpha.endsWith('%') ? n / 100 : n));
+  }
+  // Any other named colour is opaque, which is all a mask cares about
+  return /^[a-z]+$/.test(c) ? 1 : null;
+}
+
+type Gradient = { shape: MaskShape; direction: string | null; angle: number | null; centerX: number; centerY: number; stops: MaskStop[] };
+
+function parseAngle(value: string): number | null {
+  const m = value.match(/^(-?\d*\.?\d+)(deg|turn|rad|grad)$/);
+  if (!m) return null;
+  const n = parseFloat(m[1]);
+  const deg = m[2] === 'turn' ? n * 360 : m[2] === 'rad' ? (n * 180) / Math.PI : m[2] === 'grad' ? n * 0.9 : n;
+  return ((Math.round(deg) % 360) + 360) % 360;
+}
+
+/** One `linear-gradient()` or `radial-gradient()`; stops without positions are spread out the way CSS does. */
+function parseGradient(value: string, issues: string[]): Gradient | null {
+  const m = value.match(/^(?:-webkit-)?(linear|radial)-gradient\(([\s\S]*)\)$/);
+  if (!m) {
+    issues.push(`Skipped "${value.slice(0, 40)}", which isn't a linear or radial gradient`);
+    return null;
+  }
+  const args = splitTopLevel(m[2]);
+  if (args.length === 0) {
+    issues.push(`Skipped empty gradient "${value.slice(0, 40)}"`);
+    return null;
+  }
+  const gradient: Gradient = { shape: 'linear', direction: 'to bottom', angle: null, centerX: 50, centerY: 50, stops: [] };
+
+  if (m[1] === 'radial') {
+    gradient.shape = 'elliptical';
+    gradient.direction = null;
+    if (/\b(circle|ellipse|at|closest-side|closest-corner|farthest-side|farthest-corner)\b/.test(args[0])) {
+      const shape = args.shift()!;
+      if (/\bcircle\b/.test(shape)) gradient.shape = 'radial';
+      const at = shape.match(/\bat\s+(-?[\d.]+)%\s+(-?[\d.]+)%/);
+      if (at) [gradient.centerX, gradient.centerY] = [Number(at[1]), Number(at[2])];
+      else if (/\bat\b/.test(shape)) issues.push('Radial centre must be in percentages; centred it instead');
+      if (/\b(closest|farthest-side)\b/.test(shape)) issues.push('Only farthest-corner radial gradients can be matched; the size keyword was ignored');
+    }
+  } else if (/^to\s/.test(args[0]) || parseAngle(args[0]) !== null) {
+    const first = args.shift()!.replace(/\s+/g, ' ');
+    const angle = parseAngle(first);
+    if (angle !== null) [gradient.direction, gradient.angle] = [null, angle];
+    else if (DIRECTION_KEYWORDS.includes(first)) gradient.direction = first;
+    // `to right top` and `to top right` mean the same thing
+    else gradient.direction = DIRECTION_KEYWORDS.find(k => k.split(' ').sort().join(' ') === first.split(' ').sort().join(' ')) ?? null;
+    if (gradient.direction === null && gradient.angle === null) {
+      issues.push(`Unknown direction "${first}"; used to bottom`);
+      gradient.direction = 'to bottom';
+    }
+  }
+  if (args.length < 2) {
+    issues.push(args.length === 0 ? `"${value.slice(0, 40)}" has no colour stops` : 'A gradient needs at least two colour stops');
+    return null;
+  }
+
+  const raw: { opacity: number; position: number | null }[] = [];
+  for (const arg of args) {
+    const tokens = arg.match(/(?:[a-z-]+\([^)]*\)|\S)+/gi) ?? [];
+    const alpha = colorAlpha(tokens[0] ?? '');
+    if (alpha === null) {
+      issues.push(`Skipped stop "${arg}"`);
+      continue;
+    }
+    const positions = tokens.slice(1);
+    if (positions.some(p => !/^-?(?:\d+\.?\d*|\.\d+)%$/.test(p))) {
+      issues.push('Only percentage stop positions can be imported');
+      return null;
+    }
+    if (positions.length === 0) raw.push({ opacity: alpha, position: null });
+    for (const p of positions) raw.push({ opacity: alpha, position: parseFloat(p) });
+  }
+  if (raw.length < 2) {
+    issues.push('A gradient needs at least two colour stops');
+    return null;
+  }
+
+  // Unpositioned stops: ends default to 0% and 100%, the rest are spaced evenly between neighbours
+  if (raw[0].position === null) raw[0].position = 0;
+  if (raw[raw.length - 1].position === null) raw[raw.length - 1].position = 100;
+  for (let i = 1; i < raw.length; i++) {
+    if (raw[i].position !== null) continue;
+    let j = i;
+    while (raw[j].position === null) j++;
+    const from = raw[i - 1].position!, to = raw[j].position!;
+    for (let k = i; k < j; k++) raw[k].position = from + ((to - from) * (k - i + 1)) / (j - i + 1);
+  }
+  // Positions never go backwards in CSS; a smaller one is clamped to the one before it
+  let last = -Infinity;
+  gradient.stops = raw.map(s => {
+    last = Math.max(last, s.position!);
+    return { opacity: s.opacity, position: last };
+  });
+  return gradient;
+}
+
+type CurveFit = { preset: string; easingType: string; error: number };
+
+/** The named easing whose curve comes closest to `points` (progress → eased value). */
+function fitEasing(points: { t: number; v: number }[]): CurveFit {
+  const candidates: { preset: string; easingType: string }[] = [{ preset: 'linear', easingType: 'in' }];
+  for (const preset of Object.keys(easings)) {
+    if (preset === 'linear') continue;
+    for (const easingType of ['in', 'out', 'in-out'] as EasingVariant[]) candidates.push({ preset, easingType });
+  }
+  let best: CurveFit = { preset: 'linear', easingType: 'in', error: Infinity };
+  for (const c of candidates) {
+    const error = Math.max(...points.map(p => Math.abs(getEasing(c.preset, c.easingType, p.t) - p.v)));
+    if (error < best.error) best = { ...c, error };
+  }
+  return best;
+}
+
+type StopFit = {
+  height: number;
+  /** Radial gradients only: the radius the positions were scaled by, as a percentage. */
+  radius: number;
+  reverse: boolean;
+  precision: number;
+  evenlySpaced: boolean;
+  curve: CurveFit;
+  /** Why the stops can't be described by height, easing and reverse; `null` if they can. */
+  mismatch: string | null;
+};
+
+/** Reads the generator's settings back out of a stop list built the way `getMaskStops` builds one. */
+function fitStops(stops: MaskStop[], scaled: boolean): StopFit {
+  const last = stops[stops.length - 1], prev = stops[stops.length - 2];
+  // A flat stretch at the end is the padding stop added when the fade is shorter than the gradient
+  const padded = stops.length >= 3 && Math.abs(last.opacity - prev.opacity) < 0.001 && last.position > prev.position;
+  const curve = padded ? stops.slice(0, -1) : stops;
+  const extent = curve[curve.length - 1].position;
+  const radius = scaled ? (padded ? last.position : extent) : 100;
+  const height = Math.round((extent / (radius / 100)) * 10) / 10;
+  const reverse = curve[0].opacity < curve[curve.length - 1].opacity;
+
+  const fit: StopFit = {
+    height, radius, reverse,
+    precision: curve.length - 1,
+    evenlySpaced: true,
+    curve: { preset: 'linear', easingType: 'in', error: Infinity },
+    mismatch: null,
+  };
+
+  const [start, end] = reverse ? [0, 1] : [1, 0];
+  if (curve[0].position > 0.05) fit.mismatch = `The fade starts at ${curve[0].position}% instead of the edge`;
+  else if (Math.abs(curve[0].opacity - start) > 0.01 || Math.abs(curve[curve.length - 1].opacity - end) > 0.01) {
+    fit.mismatch = `The mask fades from ${curve[0].opacity} to ${curve[curve.length - 1].opacity} rather than between fully opaque and transparent`;
+  } else if (extent <= 0) fit.mismatch = 'The fade has no length';
+  if (fit.mismatch) return fit;
+
+  const points = curve.map(s => ({ t: s.position / extent, v: reverse ? s.opacity : 1 - s.opacity }));
+  // Exported positions are rounded to 0.1%, so allow for that when checking the spacing
+  const slack = 0.06 / extent + 0.001;
+  fit.evenlySpaced = points.every((p, i) => Math.abs(p.t - i / fit.precision) <= slack);
+  fit.curve = fitEasing(points);
+  if (fit.curve.error > FIT_TOLERANCE) {
+    fit.mismatch = `No easing preset matches the stops within ${FIT_TOLERANCE * 100}% (closest is ${fit.curve.preset === 'linear' ? 'linear' : `${fit.curve.preset} ${fit.curve.easingType}`})`;
+  }
+  return fit;
+}
+
+/** Edge a multi-edge gradient belongs to, going by its direction. */
+const edgeFor = (g: Gradient) => EDGES.find(edge => g.shape === 'linear' && g.direction === AWAY_FROM[edge]);
+
+function importFilters(filter: string, state: BlurState, issues: string[]) {
+  for (const [, name, arg] of filter.matchAll(/([a-z-]+)\(([^)]*)\)/g)) {
+    const n = parseFloat(arg);
+    if (name === 'blur') {
+      const px = arg.endsWith('rem') || arg.endsWith('em') ? n * 16 : n;
+      if (!Number.isFinite(px) || !/^[\d.]+(px|r?em)?$/.test(arg.trim())) {
+        issues.push(`Couldn't read blur radius "${arg}"`);
+        continue;
+      }
+      state.blur = Math.min(50, Math.round(px));
+      if (state.blur !== px) issues.push(`Blur radius ${arg} rounded or clamped to ${state.blur}px`);
+      continue;
+    }
+    const spec = BACKDROP_FILTERS.find(f => f.name === name);
+    if (!spec || !Number.isFinite(n)) {
+      issues.push(`Ignored unsupported filter ${name}(${arg})`);
+      continue;
+    }
+    const value = spec.unit === 'deg' ? parseAngle(arg.trim()) ?? n : arg.trim().endsWith('%') ? n : n * 100;
+    const clamped = Math.min(spec.max, Math.max(spec.min, Math.round(value)));
+    if (clamped !== value) issues.push(`${name} rounded or clamped to ${clamped}${spec.unit}`);
+    state.filters = { ...state.filters, [name]: clamped };
+  }
+}
+
+/**
+ * Parses a CSS rule, JSX style object or Tailwind class list, like the ones the exporter writes,
+ * and works out the generator settings that reproduce it. Stops are matched against the named
+ * easing presets; when none fits, they're kept as hand-edited stops so the mask stays the same.
+ */
+export function importBlur(source: string): ImportedBlur {
+  const text = expandTailwind(source);
+  const issues: string[] = [];
+  const state: BlurState = { ...DEFAULT_BLUR_STATE, filters: { ...DEFAULT_BLUR_STATE.filters } };
+
+  const filterValues = findValues(text, CSS_PROPERTIES.filter);
+  if (filterValues.length === 0) issues.push(`No backdrop-filter found; kept the ${state.blur}px default blur`);
+  else importFilters(filterValues[0], state, issues);
+  const blurs = new Set(filterValues.map(v => v.match(/blur\(([^)]*)\)/)?.[1]).filter(Boolean));
+  if (blurs.size > 1) issues.push(`Found ${blurs.size} different blur radii; layered blurs can't be read back, so only the first was used`);
+
+  const maskValue = findValues(text, CSS_PROPERTIES.mask)[0];
+  if (!maskValue) return { state: null, issues: ['No mask-image gradient found'] };
+  if (/\bbackground(-image)?\s*:/i.test(text) || /\bbackgroundImage\s*:/.test(text)) {
+    issues.push('Ignored background-image; tints have to be set up again');
+  }
+
+  const gradients = splitTopLevel(maskValue)
+    .map(g => parseGradient(g, issues))
+    .filter((g): g is Gradient => g !== null);
+  if (gradients.length === 0) return { state: null, issues };
+
+  // Several gradients, one per edge, are a multi-edge mask
+  if (gradients.length > 1 && gradients.every(edgeFor)) {
+    state.multiEdge = true;
+    state.edges = Object.fromEntries(
+      EDGES.map(edge => [edge, { ...DEFAULT_BLUR_STATE.edges[edge], enabled: false }]),
+    ) as Record<Edge, EdgeSettings>;
+    for (const g of gradients) {
+      const edge = edgeFor(g)!;
+      const fit = fitStops(g.stops, false);
+      if (fit.mismatch || fit.reverse) issues.push(`${edge} edge: ${fit.mismatch ?? 'fades the wrong way'}; used the closest settings`);
+      state.edges[edge] = {
+        enabled:    true,
+        height:     Math.min(100, Math.max(0, Math.round(fit.height))),
+        preset:     fit.curve.error === Infinity ? DEFAULT_BLUR_STATE.edges[edge].preset : fit.curve.preset,
+        easingType: fit.curve.error === Infinity ? DEFAULT_BLUR_STATE.edges[edge].easingType : fit.curve.easingType,
+      };
+      state.precision = Math.max(2, Math.min(20, fit.precision));
+    }
+    return { state, issues };
+  }
+  if (gradients.length > 1) issues.push(`Found ${gradients.length} gradients that don't map to edges; only the first was imported`);
+
+  const g = gradients[0];
+  state.shape = g.shape;
+  state.centerX = Math.min(100, Math.max(0, Math.round(g.centerX)));
+  state.centerY = Math.min(100, Math.max(0, Math.round(g.centerY)));
+  if (g.angle !== null) [state.directionMode, state.angle] = ['angle', g.angle];
+  else if (g.direction) [state.directionMode, state.direction] = ['keyword', g.direction];
+
+  const fit = fitStops(g.stops, g.shape !== 'linear');
+  if (g.shape !== 'linear') {
+    state.radius = Math.min(200, Math.max(10, Math.round(fit.radius)));
+    if (state.radius !== fit.radius) issues.push(`Radius rounded or clamped to ${state.radius}%`);
+  }
+
+  if (fit.mismatch) {
+    issues.push(`${fit.mismatch}, so the stops were imported as hand-edited stops`);
+    const scale = g.shape === 'linear' ? 1 : state.radius / 100;
+    state.manualStops = g.stops.map(s => ({
+      position: Math.round(Math.min(100, s.position / scale) * 10) / 10,
+      opacity:  Math.round(s.opacity * 1000) / 1000,
+    }));
+    return { state, issues };
+  }
+
+  state.height = Math.min(100, Math.round(fit.height));
+  if (state.height !== fit.height) issues.push(`Fade height rounded to ${state.height}%`);
+  state.reverse = fit.reverse;
+  state.preset = fit.curve.preset;
+  state.easingType = fit.curve.easingType;
+  if (fit.curve.error > 0.005) {
+    issues.push(`Closest easing is ${fit.curve.preset} ${fit.curve.easingType}, off by up to ${(fit.curve.error * 100).toFixed(1)}% opacity`);
+  }
+  if (!fit.evenlySpaced) {
+    state.autoPrecision = true;
+    issues.push(`Stops are unevenly spaced; switched to auto precision at ${state.tolerance}%`);
+  } else {
+    state.precision = Math.min(20, Math.max(2, fit.precision));
+    // A single step is the same straight fade as the minimum precision of 2, so only a cap is worth a note
+    if (fit.precision > state.precision) issues.push(`${fit.precision} steps clamped to a precision of ${state.precision}`);
+  }
+  return { state, issues };
+}
@@ -1,47 +1,455 @@
-export const easings = {
-  linear: (t: number) => t,
-  sine: {
-    in: (t: number) => 1 - Math.cos((t * Math.PI) / 2),
-    out: (t: number) => Math.sin((t * Math.PI) / 2),
-    'in-out': (t: number) => -(Math.cos(Math.PI * t) - 1) / 2,
+// The one definition of every curve: the preview compiles these, and generated code embeds them
+// as written, so an exported component always eases exactly like the preview
+export const EASING_SOURCES = {
+  linear: 't',
+  sine:  { in: '1 - Math.cos((t * Math.PI) / 2)', out: 'Math.sin((t * Math.PI) / 2)', 'in-out': '-(Math.cos(Math.PI * t) - 1) / 2' },
+  quad:  { in: 't * t', out: '1 - (1 - t) * (1 - t)', 'in-out': 't < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2' },
+  cubic: { in: 't * t * t', out: '1 - Math.pow(1 - t, 3)', 'in-out': 't < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2' },
+  quart: { in: 't * t * t * t', out: '1 - Math.pow(1 - t, 4)', 'in-out': 't < 0.5 ? 8 * t * t * t * t : 1 - Math.pow(-2 * t + 2, 4) / 2' },
+  quint: { in: 't * t * t * t * t', out: '1 - Math.pow(1 - t, 5)', 'in-out': 't < 0.5 ? 16 * t * t * t * t * t : 1 - Math.pow(-2 * t + 2, 5) / 2' },
+  expo:  {
+    in:       't === 0 ? 0 : Math.pow(2, 10 * t - 10)',
+    out:      't === 1 ? 1 : 1 - Math.pow(2, -10 * t)',
+    'in-out': 't === 0 ? 0 : t === 1 ? 1 : t < 0.5 ? Math.pow(2, 20 * t - 10) / 2 : (2 - Math.pow(2, -20 * t + 10)) / 2',
   },
-  quad: {
-    in: (t: number) => t * t,
-    out: (t: number) => 1 - (1 - t) * (1 - t),
-    'in-out': (t: number) => t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2,
+  circ:  {
+    in:       '1 - Math.sqrt(1 - Math.pow(t, 2))',
+    out:      'Math.sqrt(1 - Math.pow(t - 1, 2))',
+    'in-out': 't < 0.5 ? (1 - Math.sqrt(1 - Math.pow(2 * t, 2))) / 2 : (Math.sqrt(1 - Math.pow(-2 * t + 2, 2)) + 1) / 2',
   },
-  cubic: {
-    in: (t: number) => t * t * t,
-    out: (t: number) => 1 - Math.pow(1 - t, 3),
-    'in-out': (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
-  },
-  quart: {
-    in: (t: number) => t * t * t * t,
-    out: (t: number) => 1 - Math.pow(1 - t, 4),
-    'in-out': (t: number) => t < 0.5 ? 8 * t * t * t * t : 1 - Math.pow(-2 * t + 2, 4) / 2,
-  },
-  quint: {
-    in: (t: number) => t * t * t * t * t,
-    out: (t: number) => 1 - Math.pow(1 - t, 5),
-    'in-out': (t: number) => t < 0.5 ? 16 * t * t * t * t * t : 1 - Math.pow(-2 * t + 2, 5) / 2,
-  },
-  expo: {
-    in: (t: number) => t === 0 ? 0 : Math.pow(2, 10 * t - 10),
-    out: (t: number) => t === 1 ? 1 : 1 - Math.pow(2, -10 * t),
-    'in-out': (t: number) => t === 0 ? 0 : t === 1 ? 1 : t < 0.5 ? Math.pow(2, 20 * t - 10) / 2 : (2 - Math.pow(2, -20 * t + 10)) / 2,
-  },
-  circ: {
-    in: (t: number) => 1 - Math.sqrt(1 - Math.pow(t, 2)),
-    out: (t: number) => Math.sqrt(1 - Math.pow(t - 1, 2)),
-    'in-out': (t: number) => t < 0.5 ? (1 - Math.sqrt(1 - Math.pow(2 * t, 2))) / 2 : (Math.sqrt(1 - Math.pow(-2 * t + 2, 2)) + 1) / 2,
-  },
-};
+} as const;
+
+type Curve = (t: number) => number;
+type EasingSources = typeof EASING_SOURCES;
+
+const compileCurve = (body: string) => new Function('t', `return ${body};`) as Curve;
+
+export const easings = Object.fromEntries(
+  Object.entries(EASING_SOURCES).map(([name, source]) => [
+    name,
+    typeof source === 'string'
+      ? compileCurve(source)
+      : { in: compileCurve(source.in), out: compileCurve(source.out), 'in-out': compileCurve(source['in-out']) },
+  ]),
+) as { [K in keyof EasingSources]: EasingSources[K] extends string ? Curve : Record<EasingVariant, Curve> };
 
 export type EasingPreset = keyof typeof easings;
 export type EasingVariant = 'in' | 'out' | 'in-out';
 
-export function getEasing(preset: string, type: string, t: number): number {
-  if (preset === 'linear') return easings.linear(t);
+/** Control points `[x1, y1, x2, y2]`, same order as CSS `cubic-bezier()`. */
+export type CubicBezier = [number, number, number, number];
+
+export const DEFAULT_BEZIER: CubicBezier = [0.42, 0, 0.58, 1];
+
+/**
+ * Evaluates a CSS-style cubic-bezier at progress `t`.
+ * Solves x(u) = t with Newton's method, falling back to bisection when the slope flattens out.
+ */
+export function cubicBezier([x1, y1, x2, y2]: CubicBezier, t: number): number {
+  if (t <= 0) return 0;
+  if (t >= 1) return 1;
+
+  const coord = (p1: number, p2: number, u: number) =>
+    3 * (1 - u) * (1 - u) * u * p1 + 3 * (1 - u) * u * u * p2 + u * u * u;
+  const slope = (p1: number, p2: number, u: number) =>
+    3 * (1 - u) * (1 - u) * p1 + 6 * (1 - u) * u * (p2 - p1) + 3 * u * u * (1 - p2);
+
+  let u = t;
+  for (let i = 0; i < 8; i++) {
+    const err = coord(x1, x2, u) - t;
+    if (Math.abs(err) < 1e-6) return coord(y1, y2, u);
+    const d = slope(x1, x2, u);
+    if (Math.abs(d) < 1e-6) break;
+    u -= err / d;
+  }
+
+  let lo = 0, hi = 1;
+  u = t;
+  while (hi - lo > 1e-6) {
+    if (coord(x1, x2, u) < t) lo = u; else hi = u;
+    u = (lo + hi) / 2;
+  }
+  return coord(y1, y2, u);
+}
+
+/** Parses `cubic-bezier(a, b, c, d)` or a bare `a, b, c, d` list as copied from Figma. */
+export function parseCubicBezier(input: string): CubicBezier | null {
+  const body = input.trim().replace(/^cubic-bezier\s*\(/i, '').replace(/\)\s*$/, '');
+  const parts = body.split(/[\s,]+/).filter(Boolean).map(Number);
+  if (parts.length !== 4 || parts.some(n => !Number.isFinite(n))) return null;
+  if (parts[0] < 0 || parts[0] > 1 || parts[2] < 0 || parts[2] > 1) return null;
+  return parts as CubicBezier;
+}
+
+export function getEasing(preset: string, type: string, t: number, bezier: CubicBezier = DEFAULT_BEZIER): number {
+  if (preset === 'custom') return cubicBezier(bezier, t);
+  // Anything that isn't a named curve, such as a preset dropped since a state was saved, eases linearly
+  if (preset === 'linear' || !Object.hasOwn(easings, preset)) return easings.linear(t);
   const curve = easings[preset as Exclude<EasingPreset, 'linear'>];
   return curve[type as EasingVariant](t);
 }
+
+export type DirectionMode = 'keyword' | 'angle';
+
+export const DIRECTION_KEYWORDS = [
+  'to top', 'to top right', 'to right', 'to bottom right',
+  'to bottom', 'to bottom left', 'to left', 'to top left',
+];
+
+export type MaskShape = 'linear' | 'radial' | 'elliptical';
+
+export type Edge = 'top' | 'right' | 'bottom' | 'left';
+
+export const EDGES: Edge[] = ['top', 'right', 'bottom', 'left'];
+
+/** One side of a multi-edge overlay: fades in from that edge over `height`% of the element. */
+export type EdgeSettings = {
+  enabled: boolean;
+  height: number;
+  preset: string;
+  easingType: string;
+};
+
+/** A colour gradient drawn over the blur, e.g. to keep light captions readable. */
+export type TintSettings = {
+  enabled: boolean;
+  /** `#rrggbb` */
+  color: string;
+  /** Opacity at the strongest point, 0–100. */
+  opacity: number;
+  /** Reuse the blur's easing instead of `preset`/`easingType`. */
+  followBlur: boolean;
+  preset: string;
+  easingType: string;
+};
+
+export type FilterName = 'saturate' | 'brightness' | 'contrast' | 'grayscale' | 'hue-rotate';
+
+export type FilterSpec = { name: FilterName; unit: '%' | 'deg'; min: number; max: number; neutral: number };
+
+/** Backdrop filters that can follow the blur, in the order they're chained. At `neutral` they're left out. */
+export const BACKDROP_FILTERS: FilterSpec[] = [
+  { name: 'saturate',   unit: '%',   min: 0, max: 300, neutral: 100 },
+  { name: 'brightness', unit: '%',   min: 0, max: 200, neutral: 100 },
+  { name: 'contrast',   unit: '%',   min: 0, max: 200, neutral: 100 },
+  { name: 'grayscale',  unit: '%',   min: 0, max: 100, neutral: 0   },
+  { name: 'hue-rotate', unit: 'deg', min: 0, max: 359, neutral: 0   },
+];
+
+export type BlurState = {
+  shape: MaskShape;
+  directionMode: DirectionMode;
+  direction: string;
+  angle: number;
+  centerX: number;
+  centerY: number;
+  radius: number;
+  height: number;
+  precision: number;
+  /** Pick the fewest, non-uniformly placed stops within `tolerance` instead of `precision` even ones. */
+  autoPrecision: boolean;
+  /** Largest allowed opacity error for `autoPrecision`, in percent. */
+  tolerance: number;
+  blur: number;
+  easingType: string;
+  preset: string;
+  bezier: CubicBezier;
+  reverse: boolean;
+  layered: boolean;
+  layerCount: number;
+  /** Blur several edges at once instead of using shape, direction, height, easing and reverse. */
+  multiEdge: boolean;
+  edges: Record<Edge, EdgeSettings>;
+  tint: TintSettings;
+  filters: Record<FilterName, number>;
+  /** Hand-edited mask stops used as-is in place of height, precision, easing and reverse; `null` to compute them. */
+  manualStops: MaskStop[] | null;
+};
+
+export const DEFAULT_BLUR_STATE: BlurState = {
+  shape:      'linear',
+  directionMode: 'keyword',
+  direction:  'to top',
+  angle:      0,
+  centerX:    50,
+  centerY:    50,
+  radius:     100,
+  height:     50,
+  precision:  6,
+  autoPrecision: false,
+  tolerance:  2,
+  blur:       15,
+  easingType: 'in',
+  preset:     'expo',
+  bezier:     DEFAULT_BEZIER,
+  reverse:    false,
+  layered:    false,
+  layerCount: 5,
+  multiEdge:  false,
+  edges: {
+    top:    { enabled: true,  height: 25, preset: 'expo', easingType: 'in' },
+    right:  { enabled: false, height: 25, preset: 'expo', easingType: 'in' },
+    bottom: { enabled: true,  height: 25, preset: 'expo', easingType: 'in' },
+    left:   { enabled: false, height: 25, preset: 'expo', easingType: 'in' },
+  },
+  tint: { enabled: false, color: '#000000', opacity: 50, followBlur: true, preset: 'quad', easingType: 'out' },
+  filters: { saturate: 100, brightness: 100, contrast: 100, grayscale: 0, 'hue-rotate': 0 },
+  manualStops: null,
+};
+
+/** Filter functions to chain after the blur, e.g. `['saturate(180%)']`; neutral filters are skipped. */
+export function getExtraFilters(filters: BlurState['filters']): string[] {
+  return BACKDROP_FILTERS
+    .filter(f => filters[f.name] !== f.neutral)
+    .map(f => `${f.name}(${filters[f.name]}${f.unit})`);
+}
+
+/** The full `backdrop-filter` value for a blur radius such as `15px`. */
+export function buildBackdropFilter(blur: string, filters: BlurState['filters']): string {
+  return [`blur(${blur})`, ...getExtraFilters(filters)].join(' ');
+}
+
+/** A mask colour stop; `position` is a percentage along the gradient ray, before any radius scaling. */
+export type MaskStop = { opacity: number; position: number };
+
+const easedAt = ({ preset, easingType, bezier }: BlurState, t: number) =>
+  Math.min(1, Math.max(0, getEasing(preset, easingType, t, bezier)));
+
+// Fine enough that the curve between two samples is effectively straight at any useful tolerance
+const FIT_SAMPLES = 400;
+
+/**
+ * Curve progress values (0–1) for the fewest stops whose straight segments stay within
+ * `tolerance` of the curve. Greedy: each segment runs as far as it can before some sample in
+ * between strays too far, which keeps the stops sparse where the curve is straight.
+ */
+function fitStopProgress(state: BlurState, tolerance: number): number[] {
+  const values = Array.from({ length: FIT_SAMPLES + 1 }, (_, i) => easedAt(state, i / FIT_SAMPLES));
+  const fits = (i: number, j: number) => {
+    for (let k = i + 1; k < j; k++) {
+      const line = values[i] + ((values[j] - values[i]) * (k - i)) / (j - i);
+      if (Math.abs(line - values[k]) > tolerance) return false;
+    }
+    return true;
+  };
+
+  const knots = [0];
+  let i = 0;
+  while (i < FIT_SAMPLES) {
+    let j = i + 1;
+    while (j < FIT_SAMPLES && fits(i, j + 1)) j++;
+    knots.push(j);
+    i = j;
+  }
+  return knots.map(k => k / FIT_SAMPLES);
+}
+
+/** Largest opacity error of `precision` evenly spaced stops against the curve. */
+function uniformError(state: BlurState, precision: number): number {
+  let error = 0;
+  for (let k = 0; k <= FIT_SAMPLES; k++) {
+    const t = k / FIT_SAMPLES;
+    const i = Math.min(precision - 1, Math.floor(t * precision));
+    const a = easedAt(state, i / precision), b = easedAt(state, (i + 1) / precision);
+    error = Math.max(error, Math.abs(a + (b - a) * (t * precision - i) - easedAt(state, t)));
+  }
+  return error;
+}
+
+// Uniform fits by curve and tolerance; each one is up to a hundred passes over the samples
+const uniformPrecisions = new Map<string, number>();
+const MAX_CACHED_FITS = 200;
+
+/**
+ * Fewest evenly spaced stops, as a `precision`, that match `tolerance` as well as auto precision
+ * does; the baseline its savings are measured against. Multi-edge states take their worst edge.
+ */
+export function getUniformPrecision(state: BlurState, max = 100): number {
+  const needed = (edge: BlurState) => {
+    const key = [edge.preset, edge.easingType, edge.bezier.join(' '), edge.tolerance, max].join('|');
+    const cached = uniformPrecisions.get(key);
+    if (cached !== undefined) return cached;
+    let precision = 2;
+    while (precision < max && uniformError(edge, precision) > edge.tolerance / 100) precision++;
+    if (uniformPrecisions.size >= MAX_CACHED_FITS) uniformPrecisions.clear();
+    uniformPrecisions.set(key, precision);
+    return precision;
+  };
+  return Math.max(2, ...getEdgeStates(state).map(needed));
+}
+
+export function getMaskStops(state: BlurState): MaskStop[] {
+  if (state.manualStops) return state.manualStops;
+  const { height, precision, reverse } = state;
+  const progress = state.autoPrecision
+    ? fitStopProgress(state, state.tolerance / 100)
+    : Array.from({ length: precision + 1 }, (_, i) => i / precision);
+  const stops: MaskStop[] = progress.map(t => {
+    const easedT = easedAt(state, t);
+    return { opacity: reverse ? easedT : 1 - easedT, position: t * height };
+  });
+  if (height < 100) stops.push({ opacity: reverse ? 1 : 0, position: 100 });
+  return stops;
+}
+
+export function getGradientDirection(state: BlurState): string {
+  return state.directionMode === 'angle' ? `${state.angle}deg` : state.direction;
+}
+
+export type GradientLine = { x1: number; y1: number; x2: number; y2: number };
+
+/**
+ * Start and end points of the CSS linear-gradient line for a `width`×`height` box, following the
+ * spec: corner keywords aim perpendicular to the opposite diagonal and the line spans the whole box.
+ */
+export function getGradientLine(state: BlurState, width: number, height: number): GradientLine {
+  let rad = (state.angle * Math.PI) / 180;
+  if (state.directionMode === 'keyword') {
+    const sx = state.direction.includes('right') ? 1 : state.direction.includes('left') ? -1 : 0;
+    const sy = state.direction.includes('bottom') ? 1 : state.direction.includes('top') ? -1 : 0;
+    rad = sx && sy ? Math.atan2(sx * height, -sy * width) : Math.atan2(sx, -sy);
+  }
+  const dx = Math.sin(rad), dy = -Math.cos(rad);
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  return {
+    x1: width / 2 - dx * half, y1: height / 2 - dy * half,
+    x2: width / 2 + dx * half, y2: height / 2 + dy * half,
+  };
+}
+
+/** Radial stop positions are scaled so `radius` sets how far the fade reaches. */
+export function getStopScale(state: BlurState): number {
+  return state.shape === 'linear' ? 1 : state.radius / 100;
+}
+
+/** Wraps a comma-separated colour-stop list in the gradient function for the state's shape. */
+export function wrapGradient(state: BlurState, list: string): string {
+  if (state.shape === 'linear') return `linear-gradient(${getGradientDirection(state)}, ${list})`;
+  const ending = state.shape === 'radial' ? 'circle' : 'ellipse';
+  return `radial-gradient(${ending} farthest-corner at ${state.centerX}% ${state.centerY}%, ${list})`;
+}
+
+/**
+ * Wraps stops in the gradient function for the current shape.
+ * Radial shapes measure from the centre to the farthest corner, so `radius` scales every stop position.
+ */
+export function buildGradient(state: BlurState, stops: MaskStop[]): string {
+  const scale = getStopScale(state);
+  const list = stops
+    .map(s => `rgba(0, 0, 0, ${s.opacity.toFixed(3)}) ${(s.position * scale).toFixed(1)}%`)
+    .join(', ');
+  return wrapGradient(state, list);
+}
+
+// A gradient running away from an edge starts at that edge
+export const AWAY_FROM: Record<Edge, string> = { top: 'to bottom', right: 'to left', bottom: 'to top', left: 'to right' };
+
+/**
+ * Each enabled edge of a multi-edge state as a plain single-edge linear state, so everything that
+ * works on one gradient can be applied per edge. Returns just the state itself otherwise.
+ */
+export function getEdgeStates(state: BlurState): BlurState[] {
+  if (!state.multiEdge) return [state];
+  return EDGES.filter(edge => state.edges[edge].enabled).map(edge => ({
+    ...state,
+    ...state.edges[edge],
+    shape:         'linear',
+    directionMode: 'keyword',
+    direction:     AWAY_FROM[edge],
+    reverse:       false,
+    layered:       false,
+    multiEdge:     false,
+    manualStops:   null,
+  }));
+}
+
+/**
+ * The mask for the whole overlay. Multi-edge states stack one gradient per edge; mask layers are
+ * combined with `mask-composite: add`, so the blur covers the union of the edges.
+ */
+export function buildMaskImage(state: BlurState): string {
+  const edges = getEdgeStates(state);
+  // With every edge switched off nothing is blurred
+  if (edges.length === 0) return 'linear-gradient(transparent, transparent)';
+  return edges.map(edge => buildGradient(edge, getMaskStops(edge))).join(', ');
+}
+
+/**
+ * Declarations for one blurred element, with the `-webkit-` prefixed properties Safari still needs.
+ * `composite` is for multi-edge masks, which stack one gradient per edge and add them together.
+ */
+export function blurDeclarations(filter: string, maskImage: string, composite = false): string {
+  return `  backdrop-filter: ${filter};\n  -webkit-backdrop-filter: ${filter};\n  mask-image: ${maskImage};\n  -webkit-mask-image: ${maskImage};` +
+    (composite ? '\n  mask-composite: add;\n  -webkit-mask-composite: source-over;' : '');
+}
+
+export type BlurLayer = { blur: number; stops: MaskStop[]; maskImage: string };
+
+/** Whether the effect renders as stacked layers; the toggle only applies to a single computed fade. */
+export function isLayered(state: BlurState): boolean {
+  return state.layered && !state.multiEdge && !state.manualStops;
+}
+
+/**
+ * Splits the effect into `layerCount` stacked backdrop-filter layers for a true progressive blur.
+ * Each layer's radius follows the easing curve, and its mask is a band that cross-fades with its
+ * neighbours, so the layers always sum to full coverage across the blurred region.
+ */
+export function getBlurLayers(state: BlurState): BlurLayer[] {
+  const { layerCount: n, height, reverse, blur, preset, easingType, bezier } = state;
+  // Band of layer k in "intensity" space, where 0 is fully sharp and 1 is fully blurred
+  const band = (k: number, x: number) => {
+    const peak = k / n;
+    if (x >= peak) return k === n ? 1 : Math.max(0, 1 - (x - peak) * n);
+    return Math.max(0, 1 - (peak - x) * n);
+  };
+  const toPosition = (x: number) => (reverse ? x : 1 - x) * height;
+
+  const layers: BlurLayer[] = [];
+  for (let k = 1; k <= n; k++) {
+    const xs = [0, (k - 1) / n, k / n, (k + 1) / n, 1].filter((x, i, arr) => x <= 1 && arr.indexOf(x) === i);
+    const stops = xs
+      .map(x => ({ opacity: band(k, x), position: toPosition(x) }))
+      .sort((a, b) => a.position - b.position);
+    if (height < 100) stops.push({ opacity: band(k, reverse ? 1 : 0), position: 100 });
+
+    const eased = Math.min(1, Math.max(0, getEasing(preset, easingType, k / n, bezier)));
+    layers.push({ blur: Math.round(blur * eased * 100) / 100, stops, maskImage: buildGradient(state, stops) });
+  }
+  return layers;
+}
+
+export function hexToRgb(hex: string): [number, number, number] {
+  const n = parseInt(hex.replace('#', ''), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+/**
+ * Gradients for the tint, one per edge like the mask, with stop opacities already scaled by the
+ * tint's maximum. Empty when the tint is off.
+ */
+export function getTintLayers(state: BlurState): { state: BlurState; stops: MaskStop[] }[] {
+  const { tint } = state;
+  if (!tint.enabled) return [];
+  return getEdgeStates(state).map(edge => {
+    const curve = tint.followBlur ? edge : { ...edge, preset: tint.preset, easingType: tint.easingType, manualStops: null };
+    const stops = getMaskStops(curve).map(s => ({ ...s, opacity: s.opacity * (tint.opacity / 100) }));
+    return { state: edge, stops };
+  });
+}
+
+/** The tint as a CSS `background-image`, or `null` when it's off. */
+export function buildTintImage(state: BlurState): string | null {
+  const layers = getTintLayers(state);
+  if (layers.length === 0) return null;
+  const [r, g, b] = hexToRgb(state.tint.color);
+  return layers
+    .map(layer => {
+      const scale = getStopScale(layer.state);
+      const list = layer.stops
+        .map(s => `rgba(${r}, ${g}, ${b}, ${s.opacity.toFixed(3)}) ${(s.position * scale).toFixed(1)}%`)
+        .join(', ');
+      return wrapGradient(layer.state, list);
+    })
+    .join(', ');
+}
@@ -0,0 +1,19 @@
+// Fallback for browsers or contexts (e.g. non-secure origins) without the async clipboard API
+export function copyViaExecCommand(text: string) {
+  const ta = document.createElement('textarea');
+  ta.value = text;
+  ta.style.cssText = 'position:fixed;top:0;left:0;opacity:0;pointer-events:none';
+  document.body.appendChild(ta);
+  ta.focus();
+  ta.select();
+  try { document.execCommand('copy'); } catch (_) { /* silent */ }
+  document.body.removeChild(ta);
+}
+
+export function copyToClipboard(text: string): Promise<void> {
+  if (navigator.clipboard && typeof navigator.clipboard.writeText === 'function') {
+    return navigator.clipboard.writeText(text).catch(() => copyViaExecCommand(text));
+  }
+  copyViaExecCommand(text);
+  return Promise.resolve();
+}
@@ -0,0 +1,223 @@
+// CSS colour parsing and formatting for the shadow generator. Channels are kept unclamped in sRGB
+// so OKLCH colours outside the sRGB gamut survive a round trip until they're formatted as hex/rgb/hsl.
+
+export type ColorSpace = 'hex' | 'rgb' | 'hsl' | 'oklch';
+
+export const COLOR_SPACES: { value: ColorSpace; label: string }[] = [
+  { value: 'hex',   label: 'HEX'   },
+  { value: 'rgb',   label: 'RGB'   },
+  { value: 'hsl',   label: 'HSL'   },
+  { value: 'oklch', label: 'OKLCH' },
+];
+
+/** sRGB channels in 0–255 (unclamped), alpha in 0–1. */
+export type Rgba = { r: number; g: number; b: number; a: number };
+
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4', azure: 'f0ffff',
+  beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd', blue: '0000ff',
+  blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00',
+  chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+  cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b', darkgray: 'a9a9a9',
+  darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b', darkmagenta: '8b008b',
+  darkolivegreen: '556b2f', darkorange: 'ff8c00', darkorchid: '9932cc', darkred: '8b0000',
+  darksalmon: 'e9967a', darkseagreen: '8fbc8f', darkslateblue: '483d8b', darkslategray: '2f4f4f',
+  darkslategrey: '2f4f4f', darkturquoise: '00ced1', darkviolet: '9400d3', deeppink: 'ff1493',
+  deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969', dodgerblue: '1e90ff', firebrick: 'b22222',
+  floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff', gainsboro: 'dcdcdc', ghostwhite: 'f8f8ff',
+  gold: 'ffd700', goldenrod: 'daa520', gray: '808080', green: '008000', greenyellow: 'adff2f',
+  grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4', indianred: 'cd5c5c', indigo: '4b0082',
+  ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa', lavenderblush: 'fff0f5', lawngreen: '7cfc00',
+  lemonchiffon: 'fffacd', lightblue: 'add8e6', lightcoral: 'f08080', lightcyan: 'e0ffff',
+  lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3', lightgreen: '90ee90', lightgrey: 'd3d3d3',
+  lightpink: 'ffb6c1', lightsalmon: 'ffa07a', lightseagreen: '20b2aa', lightskyblue: '87cefa',
+  lightslategray: '778899', lightslategrey: '778899', lightsteelblue: 'b0c4de', lightyellow: 'ffffe0',
+  lime: '00ff00', limegreen: '32cd32', linen: 'faf0e6', magenta: 'ff00ff', maroon: '800000',
+  mediumaquamarine: '66cdaa', mediumblue: '0000cd', mediumorchid: 'ba55d3', mediumpurple: '9370db',
+  mediumseagreen: '3cb371', mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a',
+  mediumturquoise: '48d1cc', mediumvioletred: 'c71585', midnightblue: '191970', mintcream: 'f5fffa',
+  mistyrose: 'ffe4e1', moccasin: 'ffe4b5', navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6',
+  olive: '808000', olivedrab: '6b8e23', orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6',
+  palegoldenrod: 'eee8aa', palegreen: '98fb98', paleturquoise: 'afeeee', palevioletred: 'db7093',
+  papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f', pink: 'ffc0cb', plum: 'dda0dd',
+  powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399', red: 'ff0000', rosybrown: 'bc8f8f',
+  royalblue: '4169e1', saddlebrown: '8b4513', salmon: 'fa8072', sandybrown: 'f4a460', seagreen: '2e8b57',
+  seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0', skyblue: '87ceeb', slateblue: '6a5acd',
+  slategray: '708090', slategrey: '708090', snow: 'fffafa', springgreen: '00ff7f', steelblue: '4682b4',
+  tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8', tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee',
+  wheat: 'f5deb3', white: 'ffffff', whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32',
+};
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+const round = (v: number, digits: number) => Number(v.toFixed(digits));
+
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/;
+
+// `50%` → 0.5 × `percentScale`, plain numbers as-is; `none` counts as zero like in CSS
+function parseNumber(token: string, percentScale: number): number | null {
+  if (token === 'none') return 0;
+  if (token.endsWith('%')) {
+    const pct = token.slice(0, -1);
+    return NUMBER.test(pct) ? (parseFloat(pct) / 100) * percentScale : null;
+  }
+  return NUMBER.test(token) ? parseFloat(token) : null;
+}
+
+const ANGLE_UNITS: Record<string, number> = { deg: 1, grad: 0.9, rad: 180 / Math.PI, turn: 360 };
+
+function parseHue(token: string): number | null {
+  if (token === 'none') return 0;
+  const unit = /(deg|grad|rad|turn)$/.exec(token)?.[0];
+  const value = unit ? token.slice(0, -unit.length) : token;
+  if (!NUMBER.test(value)) return null;
+  const deg = parseFloat(value) * (unit ? ANGLE_UNITS[unit] : 1);
+  return ((deg % 360) + 360) % 360;
+}
+
+function parseAlpha(token: string | undefined): number | null {
+  if (token === undefined) return 1;
+  const a = parseNumber(token, 1);
+  return a === null ? null : clamp(a, 0, 1);
+}
+
+// Accepts both `rgb(1, 2, 3, 0.5)` and `rgb(1 2 3 / 50%)`
+function splitArgs(args: string): string[] | null {
+  const trimmed = args.trim();
+  if (trimmed.includes(',')) {
+    const parts = trimmed.split(',').map(p => p.trim());
+    return parts.length === 3 || parts.length === 4 ? parts : null;
+  }
+  const [channels, alpha, ...rest] = trimmed.split('/').map(p => p.trim());
+  if (rest.length > 0 || alpha === '') return null;
+  const parts = channels.split(/\s+/);
+  if (parts.length !== 3) return null;
+  return alpha === undefined ? parts : [...parts, alpha];
+}
+
+function parseHex(hex: string): Rgba | null {
+  if (!/^[0-9a-f]+$/.test(hex) || ![3, 4, 6, 8].includes(hex.length)) return null;
+  const full = hex.length <= 4 ? [...hex].map(c => c + c).join('') : hex;
+  const byte = (i: number) => parseInt(full.slice(i * 2, i * 2 + 2), 16);
+  return { r: byte(0), g: byte(1), b: byte(2), a: full.length === 8 ? byte(3) / 255 : 1 };
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return [f(0) * 255, f(8) * 255, f(4) * 255];
+}
+
+function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+  const max = Math.max(r, g, b), min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return [0, 0, l];
+  const s = d / (1 - Math.abs(2 * l - 1));
+  const h = max === r ? ((g - b) / d) % 6 : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return [((h * 60) + 360) % 360, s, l];
+}
+
+const toLinear = (c: number) => {
+  const abs = Math.abs(c);
+  return abs <= 0.04045 ? c / 12.92 : Math.sign(c) * ((abs + 0.055) / 1.055) ** 2.4;
+};
+const fromLinear = (c: number) => {
+  const abs = Math.abs(c);
+  return abs <= 0.0031308 ? c * 12.92 : Math.sign(c) * (1.055 * abs ** (1 / 2.4) - 0.055);
+};
+
+// OKLab matrices from https://bottosson.github.io/posts/oklab/
+function oklchToRgb(l: number, c: number, h: number): [number, number, number] {
+  const a = c * Math.cos((h * Math.PI) / 180);
+  const b = c * Math.sin((h * Math.PI) / 180);
+  const l_ = (l + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m_ = (l - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s_ = (l - 0.0894841775 * a - 1.2914855480 * b) ** 3;
+  return [
+    fromLinear( 4.0767416621 * l_ - 3.3077115913 * m_ + 0.2309699292 * s_) * 255,
+    fromLinear(-1.2684380046 * l_ + 2.6097574011 * m_ - 0.3413193965 * s_) * 255,
+    fromLinear(-0.0041960863 * l_ - 0.7034186147 * m_ + 1.7076147010 * s_) * 255,
+  ];
+}
+
+function rgbToOklch(r: number, g: number, b: number): [number, number, number] {
+  const [lr, lg, lb] = [r, g, b].map(c => toLinear(c / 255));
+  const l_ = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m_ = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s_ = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  const l = 0.2104542553 * l_ + 0.7936177850 * m_ - 0.0040720468 * s_;
+  const a = 1.9779984951 * l_ - 2.4285922050 * m_ + 0.4505937099 * s_;
+  const bb = 0.0259040371 * l_ + 0.7827717662 * m_ - 0.8086757660 * s_;
+  const c = Math.hypot(a, bb);
+  const h = (Math.atan2(bb, a) * 180) / Math.PI;
+  return [l, c, (h + 360) % 360];
+}
+
+/** Parses hex (3, 4, 6 or 8 digits), `rgb()`, `hsl()`, `oklch()` and named colours; `null` if it isn't one. */
+export function parseColor(input: string): Rgba | null {
+  const value = input.trim().toLowerCase();
+  if (value === 'transparent') return { r: 0, g: 0, b: 0, a: 0 };
+  if (value.startsWith('#')) return parseHex(value.slice(1));
+  if (Object.hasOwn(NAMED_COLORS, value)) return parseHex(NAMED_COLORS[value]);
+
+  const fn = /^(rgba?|hsla?|oklch)\((.*)\)$/.exec(value);
+  const args = fn && splitArgs(fn[2]);
+  if (!fn || !args) return null;
+  const alpha = parseAlpha(args[3]);
+  if (alpha === null) return null;
+
+  if (fn[1].startsWith('rgb')) {
+    const channels = args.slice(0, 3).map(t => parseNumber(t, 255));
+    if (channels.some(c => c === null)) return null;
+    const [r, g, b] = channels.map(c => clamp(c!, 0, 255));
+    return { r, g, b, a: alpha };
+  }
+
+  if (fn[1].startsWith('hsl')) {
+    const h = parseHue(args[0]), s = parseNumber(args[1], 100), l = parseNumber(args[2], 100);
+    if (h === null || s === null || l === null) return null;
+    const [r, g, b] = hslToRgb(h, clamp(s, 0, 100) / 100, clamp(l, 0, 100) / 100);
+    return { r, g, b, a: alpha };
+  }
+
+  // oklch: lightness 100% = 1, chroma 100% = 0.4
+  const l = parseNumber(args[0], 1), c = parseNumber(args[1], 0.4), h = parseHue(args[2]);
+  if (l === null || c === null || h === null) return null;
+  const [r, g, b] = oklchToRgb(clamp(l, 0, 1), Math.max(0, c), h);
+  return { r, g, b, a: alpha };
+}
+
+/** `#rrggbb` for `<input type="color">`, which can't take alpha or out-of-gamut values. */
+export function toHexInput(color: Rgba): string {
+  return formatColor({ ...color, a: 1 }, 'hex');
+}
+
+export function formatColor(color: Rgba, space: ColorSpace): string {
+  const a = round(clamp(color.a, 0, 1), 3);
+  const [r, g, b] = [color.r, color.g, color.b].map(c => clamp(c, 0, 255));
+
+  switch (space) {
+    case 'hex': {
+      const channels = a < 1 ? [r, g, b, a * 255] : [r, g, b];
+      return `#${channels.map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+    }
+    case 'rgb': {
+      const [rr, gg, bb] = [r, g, b].map(Math.round);
+      return a < 1 ? `rgba(${rr}, ${gg}, ${bb}, ${a})` : `rgb(${rr}, ${gg}, ${bb})`;
+    }
+    case 'hsl': {
+      const [h, s, l] = rgbToHsl(r / 255, g / 255, b / 255);
+      const parts = `${round(h, 1) % 360}, ${round(s * 100, 1)}%, ${round(l * 100, 1)}%`;
+      return a < 1 ? `hsla(${parts}, ${a})` : `hsl(${parts})`;
+    }
+    case 'oklch': {
+      // Unclamped channels, so wide-gamut input comes back out unchanged
+      const [l, c, h] = rgbToOklch(color.r, color.g, color.b);
+      // Greys have no meaningful hue
+      const hue = c < 0.0001 ? 0 : round(h, 2) % 360;
+      const parts = `${round(l * 100, 2)}% ${round(c, 4)} ${hue}`;
+      return a < 1 ? `oklch(${parts} / ${a})` : `oklch(${parts})`;
+    }
+  }
+}
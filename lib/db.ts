@@ -1,11 +1,45 @@
+import { DEFAULT_BLUR_STATE, type BlurState } from './blur-utils';
+
 const DB_NAME = 'smooth-blur-db';
+const DB_VERSION = 3;
 const STORE_NAME = 'user-images';
+const PRESET_STORE = 'presets';
+const HISTORY_STORE = 'history';
 const IMAGE_KEY = 'custom-preview';
 
+export type SavedPreset = {
+  id: string;
+  name: string;
+  state: BlurState;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type HistoryEntry<T> = {
+  state: T;
+  label: string;
+  /** Settings changed since the entry before, used to group a drag into one step. */
+  keys: string[];
+  at: number;
+  /** Serialized length, so the history can be capped without re-serializing every entry. */
+  size: number;
+};
+
+export type StoredHistory<T> = {
+  entries: HistoryEntry<T>[];
+  index: number;
+};
+
 function openDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
-    const req = indexedDB.open(DB_NAME, 1);
-    req.onupgradeneeded = () => req.result.createObjectStore(STORE_NAME);
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    // Only create what's missing so upgrading keeps the stored preview image and presets
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE_NAME))   db.createObjectStore(STORE_NAME);
+      if (!db.objectStoreNames.contains(PRESET_STORE)) db.createObjectStore(PRESET_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) db.createObjectStore(HISTORY_STORE);
+    };
     req.onsuccess = () => resolve(req.result);
     req.onerror = () => reject(req.error);
   });
@@ -40,3 +74,60 @@ export async function deleteImageFromDB() {
     tx.onerror = () => reject(tx.error);
   });
 }
+
+export async function listPresetsFromDB(): Promise<SavedPreset[]> {
+  const db = await openDB();
+  const tx = db.transaction(PRESET_STORE, 'readonly');
+  const req = tx.objectStore(PRESET_STORE).getAll();
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => {
+      const presets = (req.result as SavedPreset[])
+        // Presets saved before newer settings existed pick up their defaults
+        .map(p => ({ ...p, state: { ...DEFAULT_BLUR_STATE, ...p.state } }))
+        .sort((a, b) => a.createdAt - b.createdAt);
+      resolve(presets);
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function savePresetToDB(preset: SavedPreset) {
+  const db = await openDB();
+  const tx = db.transaction(PRESET_STORE, 'readwrite');
+  tx.objectStore(PRESET_STORE).put(preset);
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function deletePresetFromDB(id: string) {
+  const db = await openDB();
+  const tx = db.transaction(PRESET_STORE, 'readwrite');
+  tx.objectStore(PRESET_STORE).delete(id);
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// One undo history per tool, keyed by the tool's name
+export async function loadHistoryFromDB<T>(tool: string): Promise<StoredHistory<T> | null> {
+  const db = await openDB();
+  const tx = db.transaction(HISTORY_STORE, 'readonly');
+  const req = tx.objectStore(HISTORY_STORE).get(tool);
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result ?? null);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function saveHistoryToDB<T>(tool: string, history: StoredHistory<T>) {
+  const db = await openDB();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  tx.objectStore(HISTORY_STORE).put(history, tool);
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
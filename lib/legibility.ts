@@ -0,0 +1,126 @@
+import { loadImage, renderProgressiveBlur, type RenderSize } from './bake-image';
+import { hexToRgb, type BlurState, type TintSettings } from './blur-utils';
+
+/** Sample text drawn over the preview to check its contrast against what ends up behind it. */
+export type TextSample = {
+  enabled: boolean;
+  text: string;
+  /** `#rrggbb` */
+  color: string;
+  /** Centre of the text as a percentage of the preview. */
+  x: number;
+  y: number;
+  /** Font size in px. */
+  size: number;
+};
+
+export const DEFAULT_TEXT_SAMPLE: TextSample = {
+  enabled: false,
+  text:    'Sample caption text',
+  color:   '#ffffff',
+  x:       50,
+  y:       85,
+  size:    18,
+};
+
+/** Weight the preview draws the sample in; the measured box must match it. */
+export const TEXT_SAMPLE_WEIGHT = 600;
+
+export type WcagLevel = 'AAA' | 'AA' | 'fail';
+
+/** WCAG treats 18pt (24px) text, or 14pt bold, as large; the sample is always semi-bold. */
+export const isLargeText = (size: number) => size >= 24;
+
+/** Minimum contrast ratios, normal text first. */
+const THRESHOLDS = { AA: [4.5, 3], AAA: [7, 4.5] } as const;
+
+export function relativeLuminance([r, g, b]: number[]): number {
+  const channel = (c: number) => {
+    const s = c / 255;
+    return s <= 0.04045 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+export function contrastRatio(a: number[], b: number[]): number {
+  const [hi, lo] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+}
+
+export function wcagLevel(ratio: number, large: boolean): WcagLevel {
+  const i = large ? 1 : 0;
+  if (ratio >= THRESHOLDS.AAA[i]) return 'AAA';
+  if (ratio >= THRESHOLDS.AA[i]) return 'AA';
+  return 'fail';
+}
+
+export type LegibilityReport = {
+  ratio: number;
+  level: WcagLevel;
+  large: boolean;
+  /** Smallest blur radius that reaches AA with everything else unchanged; `null` if none does. */
+  minBlur: number | null;
+  /** Weakest tint that reaches AA, in the colour opposite the text; `null` if none does. */
+  minTint: TintSettings | null;
+};
+
+/**
+ * Contrast between the text colour and the pixels under the sample's box. Backgrounds aren't flat,
+ * so this is the ratio 95% of the box reaches: a handful of stray pixels doesn't fail the text,
+ * but a patch of them does.
+ */
+function measureContrast(canvas: HTMLCanvasElement, sample: TextSample, size: RenderSize): number {
+  const ctx = canvas.getContext('2d')!;
+  const scale = canvas.width / size.displayWidth;
+  ctx.font = `${TEXT_SAMPLE_WEIGHT} ${sample.size * scale}px ${getComputedStyle(document.body).fontFamily}`;
+  const w = Math.max(1, Math.round(ctx.measureText(sample.text).width));
+  const h = Math.max(1, Math.round(sample.size * 1.2 * scale));
+
+  const x = Math.min(canvas.width - 1, Math.max(0, Math.round((sample.x / 100) * canvas.width - w / 2)));
+  const y = Math.min(canvas.height - 1, Math.max(0, Math.round((sample.y / 100) * canvas.height - h / 2)));
+  const { data } = ctx.getImageData(x, y, Math.min(w, canvas.width - x), Math.min(h, canvas.height - y));
+
+  const text = hexToRgb(sample.color);
+  const ratios: number[] = [];
+  for (let i = 0; i < data.length; i += 4) ratios.push(contrastRatio(text, [data[i], data[i + 1], data[i + 2]]));
+  ratios.sort((a, b) => a - b);
+  return ratios[Math.floor(ratios.length * 0.05)];
+}
+
+/**
+ * Smallest integer in `[lo, hi]` that passes, or `null`. Assumes that once a value passes, every
+ * larger one does too, which holds closely enough for blur and tint strength.
+ */
+function searchMinimum(lo: number, hi: number, passes: (n: number) => boolean): number | null {
+  if (!passes(hi)) return null;
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (passes(mid)) hi = mid; else lo = mid + 1;
+  }
+  return hi;
+}
+
+/**
+ * Renders the blur over the image at preview resolution and reports how readable the sample text
+ * is. When it falls short of AA, also searches for the weakest blur and the weakest tint that fix it.
+ */
+export async function checkLegibility(src: string, state: BlurState, sample: TextSample, size: RenderSize): Promise<LegibilityReport> {
+  const img = await loadImage(src);
+  const preview = { ...size, maxScale: 1 };
+  const contrastFor = (s: BlurState) => measureContrast(renderProgressiveBlur(img, s, preview), sample, preview);
+
+  const large = isLargeText(sample.size);
+  const ratio = contrastFor(state);
+  const level = wcagLevel(ratio, large);
+  if (level !== 'fail') return { ratio, level, large, minBlur: null, minTint: null };
+
+  const passes = (s: BlurState) => wcagLevel(contrastFor(s), large) !== 'fail';
+  const minBlur = searchMinimum(state.blur, 50, blur => passes({ ...state, blur }));
+
+  // Light text needs a dark scrim behind it and vice versa
+  const color = relativeLuminance(hexToRgb(sample.color)) > 0.18 ? '#000000' : '#ffffff';
+  const tintAt = (opacity: number): TintSettings => ({ ...state.tint, enabled: true, color, opacity });
+  const opacity = searchMinimum(1, 100, o => passes({ ...state, tint: tintAt(o) }));
+
+  return { ratio, level, large, minBlur, minTint: opacity === null ? null : tintAt(opacity) };
+}
@@ -0,0 +1,239 @@
+import {
+  easings, parseCubicBezier, BACKDROP_FILTERS, DEFAULT_BLUR_STATE, DIRECTION_KEYWORDS, EDGES, type BlurState,
+} from './blur-utils';
+
+const PERMALINK_VERSION = 1;
+
+type Field =
+  | { key: string; prop: keyof BlurState; kind: 'int'; min: number; max: number }
+  | { key: string; prop: keyof BlurState; kind: 'enum'; values: readonly string[] }
+  | { key: string; prop: keyof BlurState; kind: 'bool' | 'bezier' | 'edges' | 'tint' | 'filters' | 'stops' };
+
+// Short query keys keep links compact; only values that differ from the defaults are written
+const FIELDS: Field[] = [
+  { key: 'sh', prop: 'shape',         kind: 'enum', values: ['linear', 'radial', 'elliptical'] },
+  { key: 'dm', prop: 'directionMode', kind: 'enum', values: ['keyword', 'angle'] },
+  { key: 'd',  prop: 'direction',     kind: 'enum', values: DIRECTION_KEYWORDS },
+  { key: 'a',  prop: 'angle',         kind: 'int',  min: 0,  max: 359 },
+  { key: 'cx', prop: 'centerX',       kind: 'int',  min: 0,  max: 100 },
+  { key: 'cy', prop: 'centerY',       kind: 'int',  min: 0,  max: 100 },
+  { key: 'r',  prop: 'radius',        kind: 'int',  min: 10, max: 200 },
+  { key: 'h',  prop: 'height',        kind: 'int',  min: 0,  max: 100 },
+  { key: 'p',  prop: 'precision',     kind: 'int',  min: 2,  max: 20 },
+  { key: 'ap', prop: 'autoPrecision', kind: 'bool' },
+  { key: 'tl', prop: 'tolerance',     kind: 'int',  min: 1,  max: 10 },
+  { key: 'b',  prop: 'blur',          kind: 'int',  min: 0,  max: 50 },
+  { key: 'e',  prop: 'easingType',    kind: 'enum', values: ['in', 'out', 'in-out'] },
+  { key: 'pr', prop: 'preset',        kind: 'enum', values: [...Object.keys(easings), 'custom'] },
+  { key: 'bz', prop: 'bezier',        kind: 'bezier' },
+  { key: 'rv', prop: 'reverse',       kind: 'bool' },
+  { key: 'l',  prop: 'layered',       kind: 'bool' },
+  { key: 'lc', prop: 'layerCount',    kind: 'int',  min: 2,  max: 10 },
+  { key: 'me', prop: 'multiEdge',     kind: 'bool' },
+  { key: 'eg', prop: 'edges',         kind: 'edges' },
+  { key: 'tn', prop: 'tint',          kind: 'tint' },
+  { key: 'f',  prop: 'filters',       kind: 'filters' },
+  { key: 'ms', prop: 'manualStops',   kind: 'stops' },
+];
+
+const EASING_TYPES = ['in', 'out', 'in-out'];
+
+// Own keys only: `in` would also accept `toString`, `constructor` and friends from the prototype
+const isEasingPreset = (preset: string) => Object.hasOwn(easings, preset);
+
+// Enabled edges only, as `side.height.preset.type` joined by `_`, e.g. `t.25.expo.in_b.40.sine.out`
+function encodeEdges(edges: BlurState['edges']): string {
+  return EDGES
+    .filter(edge => edges[edge].enabled)
+    .map(edge => [edge[0], edges[edge].height, edges[edge].preset, edges[edge].easingType].join('.'))
+    .join('_');
+}
+
+// `enabled.rrggbb.opacity.followBlur.preset.type`, e.g. `1.000000.50.1.quad.out`
+function encodeTint(tint: BlurState['tint']): string {
+  const flag = (b: boolean) => (b ? '1' : '0');
+  return [flag(tint.enabled), tint.color.slice(1), tint.opacity, flag(tint.followBlur), tint.preset, tint.easingType].join('.');
+}
+
+function decodeTint(raw: string): BlurState['tint'] | null {
+  const [enabled, color, o, followBlur, preset, easingType] = raw.split('.');
+  const opacity = Number(o);
+  const isFlag = (v: string) => v === '1' || v === '0';
+  if (!isFlag(enabled) || !/^[0-9a-f]{6}$/i.test(color) || !o || !Number.isFinite(opacity)
+    || !isFlag(followBlur) || !isEasingPreset(preset) || !EASING_TYPES.includes(easingType)) return null;
+  return {
+    enabled:    enabled === '1',
+    color:      `#${color.toLowerCase()}`,
+    opacity:    Math.min(100, Math.max(0, Math.round(opacity))),
+    followBlur: followBlur === '1',
+    preset,
+    easingType,
+  };
+}
+
+function decodeEdges(raw: string, issues: string[]): BlurState['edges'] {
+  const edges = Object.fromEntries(
+    EDGES.map(edge => [edge, { ...DEFAULT_BLUR_STATE.edges[edge], enabled: false }]),
+  ) as BlurState['edges'];
+
+  for (const part of raw.split('_').filter(Boolean)) {
+    const [side, h, preset, easingType] = part.split('.');
+    const edge = EDGES.find(e => e[0] === side);
+    const height = Number(h);
+    // Per-edge easing can't be a custom bezier, see `EdgeSettings`
+    if (!edge || !h || !Number.isFinite(height) || !isEasingPreset(preset) || !EASING_TYPES.includes(easingType)) {
+      issues.push(`Ignored invalid edge "${part}"`);
+      continue;
+    }
+    const clamped = Math.min(100, Math.max(0, Math.round(height)));
+    if (clamped !== height) issues.push(`Clamped ${edge} edge height to ${clamped}`);
+    edges[edge] = { enabled: true, height: clamped, preset, easingType };
+  }
+  return edges;
+}
+
+// Non-neutral filters only, as `initial.value` joined by `_`, e.g. `s.180_h.90`
+function encodeFilters(filters: BlurState['filters']): string {
+  return BACKDROP_FILTERS
+    .filter(f => filters[f.name] !== f.neutral)
+    .map(f => `${f.name[0]}.${filters[f.name]}`)
+    .join('_');
+}
+
+function decodeFilters(raw: string, issues: string[]): BlurState['filters'] {
+  const filters = { ...DEFAULT_BLUR_STATE.filters };
+  for (const part of raw.split('_').filter(Boolean)) {
+    const [initial, v] = part.split('.');
+    const spec = BACKDROP_FILTERS.find(f => f.name[0] === initial);
+    const value = Number(v);
+    if (!spec || !v || !Number.isFinite(value)) {
+      issues.push(`Ignored invalid filter "${part}"`);
+      continue;
+    }
+    const clamped = Math.min(spec.max, Math.max(spec.min, Math.round(value)));
+    if (clamped !== value) issues.push(`Clamped ${spec.name} to ${clamped}`);
+    filters[spec.name] = clamped;
+  }
+  return filters;
+}
+
+// `position-opacity` pairs joined by `_`, e.g. `0-1_12.5-0.8_50-0`; empty for computed stops
+function encodeStops(stops: BlurState['manualStops']): string {
+  return stops ? stops.map(s => `${s.position}-${s.opacity}`).join('_') : '';
+}
+
+function decodeStops(raw: string): BlurState['manualStops'] {
+  const stops = raw.split('_').map(part => {
+    const [p, o] = part.split('-');
+    const position = Number(p), opacity = Number(o);
+    if (!p || !o || !Number.isFinite(position) || !Number.isFinite(opacity)) return null;
+    return { position: Math.min(100, Math.max(0, position)), opacity: Math.min(1, Math.max(0, opacity)) };
+  });
+  if (stops.length < 2 || stops.some(s => s === null)) return null;
+  return (stops as NonNullable<BlurState['manualStops']>).sort((a, b) => a.position - b.position);
+}
+
+// Directions are written without the `to ` prefix and with dashes, e.g. `top-right`
+const encodeDirection = (d: string) => d.replace(/^to /, '').replace(/ /g, '-');
+const decodeDirection = (d: string) => `to ${d.replace(/-/g, ' ')}`;
+
+function encodeValue(field: Field, value: BlurState[keyof BlurState]): string {
+  if (field.kind === 'bool')   return value ? '1' : '0';
+  if (field.kind === 'bezier') return (value as number[]).join(',');
+  if (field.kind === 'edges')  return encodeEdges(value as BlurState['edges']);
+  if (field.kind === 'tint')   return encodeTint(value as BlurState['tint']);
+  if (field.kind === 'filters') return encodeFilters(value as BlurState['filters']);
+  if (field.kind === 'stops')  return encodeStops(value as BlurState['manualStops']);
+  if (field.prop === 'direction') return encodeDirection(value as string);
+  return String(value);
+}
+
+export function encodePermalink(state: BlurState): string {
+  const params = new URLSearchParams({ v: String(PERMALINK_VERSION) });
+  for (const field of FIELDS) {
+    const value = state[field.prop];
+    const encoded = encodeValue(field, value);
+    if (encoded !== encodeValue(field, DEFAULT_BLUR_STATE[field.prop])) params.set(field.key, encoded);
+  }
+  return params.toString();
+}
+
+export function buildPermalink(state: BlurState, location: Pick<Location, 'origin' | 'pathname'>): string {
+  return `${location.origin}${location.pathname}?${encodePermalink(state)}`;
+}
+
+export type DecodedPermalink = {
+  /** `null` when the whole link was rejected. */
+  state: BlurState | null;
+  /** Human-readable notes about values that were clamped or dropped. */
+  issues: string[];
+};
+
+/**
+ * Parses a permalink query string back into a full `BlurState`.
+ * Returns `null` when the query holds no permalink. Links from an unknown version are rejected
+ * outright; otherwise out-of-range numbers are clamped and unrecognised values fall back to the defaults.
+ */
+export function decodePermalink(search: string): DecodedPermalink | null {
+  const params = new URLSearchParams(search);
+  const version = params.get('v');
+  if (version === null) return null;
+  if (Number(version) !== PERMALINK_VERSION) {
+    return { state: null, issues: [`Unsupported link version "${version}"`] };
+  }
+
+  const state: Record<string, unknown> = { ...DEFAULT_BLUR_STATE };
+  const issues: string[] = [];
+
+  for (const field of FIELDS) {
+    const raw = params.get(field.key);
+    if (raw === null) continue;
+
+    switch (field.kind) {
+      case 'int': {
+        const n = Number(raw);
+        if (raw.trim() === '' || !Number.isFinite(n)) { issues.push(`Ignored invalid ${field.prop}`); break; }
+        const clamped = Math.min(field.max, Math.max(field.min, Math.round(n)));
+        if (clamped !== n) issues.push(`Clamped ${field.prop} to ${clamped}`);
+        state[field.prop] = clamped;
+        break;
+      }
+      case 'enum': {
+        const value = field.prop === 'direction' ? decodeDirection(raw) : raw;
+        if (field.values.includes(value)) state[field.prop] = value;
+        else issues.push(`Ignored unknown ${field.prop} "${raw}"`);
+        break;
+      }
+      case 'bool':
+        if (raw === '1' || raw === '0') state[field.prop] = raw === '1';
+        else issues.push(`Ignored invalid ${field.prop}`);
+        break;
+      case 'bezier': {
+        const bezier = parseCubicBezier(raw);
+        if (bezier) state[field.prop] = bezier;
+        else issues.push('Ignored invalid bezier');
+        break;
+      }
+      case 'edges':
+        state[field.prop] = decodeEdges(raw, issues);
+        break;
+      case 'tint': {
+        const tint = decodeTint(raw);
+        if (tint) state[field.prop] = tint;
+        else issues.push('Ignored invalid tint');
+        break;
+      }
+      case 'filters':
+        state[field.prop] = decodeFilters(raw, issues);
+        break;
+      case 'stops': {
+        const stops = decodeStops(raw);
+        if (stops) state[field.prop] = stops;
+        else issues.push('Ignored invalid stops');
+        break;
+      }
+    }
+  }
+
+  return { state: state as BlurState, issues };
+}
@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useState } from 'react';
+import { loadHistoryFromDB, saveHistoryToDB, type HistoryEntry, type StoredHistory } from './db';
+
+export type { HistoryEntry } from './db';
+
+// Changes settle this long before they become an entry
+const COMMIT_DELAY = 300;
+// A change to the same settings this soon after the last entry is folded into it
+const GROUP_WINDOW = 1500;
+const MAX_ENTRIES = 100;
+const MAX_BYTES = 512 * 1024;
+
+// Inputs that don't have their own text undo, so the shortcut stays ours
+const NON_TEXT_INPUTS = new Set(['range', 'checkbox', 'radio', 'color', 'button', 'submit', 'reset', 'file']);
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const ak = Object.keys(a), bk = Object.keys(b);
+  if (ak.length !== bk.length) return false;
+  return ak.every(k => isEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+}
+
+function changedKeys<T extends object>(prev: T, next: T): string[] {
+  return Object.keys(next).filter(k => !isEqual((prev as Record<string, unknown>)[k], (next as Record<string, unknown>)[k]));
+}
+
+// `centerX` → "Center X", `layerCount` → "Layer count"
+function humanize(key: string): string {
+  const words = key.replace(/([A-Z])/g, ' $1').split(' ');
+  return words
+    .map((w, i) => (i === 0 ? w[0].toUpperCase() + w.slice(1) : w.length === 1 ? w : w.toLowerCase()))
+    .join(' ');
+}
+
+function describe(keys: string[]): string {
+  return keys.length <= 2 ? keys.map(humanize).join(', ') : `${keys.length} settings`;
+}
+
+function entryFor<T>(state: T, label: string, keys: string[], at: number): HistoryEntry<T> {
+  return { state, label, keys, at, size: JSON.stringify(state).length };
+}
+
+// Drops the oldest entries past the count or size budget, never the current one
+function trim<T>(history: StoredHistory<T>): StoredHistory<T> {
+  const { entries, index } = history;
+  let bytes = entries.reduce((sum, e) => sum + e.size, 0);
+  let drop = 0;
+  while (drop < index && (entries.length - drop > MAX_ENTRIES || bytes > MAX_BYTES)) {
+    bytes -= entries[drop].size;
+    drop++;
+  }
+  return drop === 0 ? history : { entries: entries.slice(drop), index: index - drop };
+}
+
+function commit<T extends object>(prev: StoredHistory<T>, state: T, now: number): StoredHistory<T> {
+  const entries = prev.entries.slice(0, prev.index + 1);
+  const last = entries[entries.length - 1];
+  const keys = changedKeys(last.state, state);
+  if (keys.length === 0) return prev;
+
+  // A slider dragged in bursts lands as one step instead of one per pause
+  const before = entries[entries.length - 2];
+  if (before && now - last.at < GROUP_WINDOW && keys.every(k => last.keys.includes(k))) {
+    const merged = changedKeys(before.state, state);
+    entries.pop();
+    // Dragged back to where it started: the step disappears
+    if (merged.length > 0) entries.push(entryFor(state, describe(merged), merged, now));
+  } else {
+    entries.push(entryFor(state, describe(keys), keys, now));
+  }
+  return trim({ entries, index: entries.length - 1 });
+}
+
+// Stored steps come first; what happened on this page before they loaded follows them
+function restore<T extends object>(stored: StoredHistory<T>, local: StoredHistory<T>): StoredHistory<T> {
+  const kept = stored.entries.slice(0, stored.index + 1);
+  const opened = local.entries.slice(0, local.index + 1);
+  const fresh = isEqual(kept[kept.length - 1].state, opened[0].state) ? opened.slice(1) : opened;
+  const entries = [...kept, ...fresh];
+  return trim({ entries, index: entries.length - 1 });
+}
+
+function isTextField(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement) return true;
+  return target instanceof HTMLInputElement && !NON_TEXT_INPUTS.has(target.type);
+}
+
+interface HistoryOptions<T> {
+  /** Key the history is stored under, one per tool. */
+  tool: string;
+  state: T;
+  apply: (state: T) => void;
+  /** Brings stored states up to date, e.g. filling in settings added since. Keep it stable. */
+  revive?: (state: T) => T;
+}
+
+/**
+ * Undo history for a generator's settings. Changes are committed once they settle, stored in
+ * IndexedDB per tool, and Ctrl/Cmd+Z and Shift+Ctrl/Cmd+Z step through them outside text fields.
+ */
+export function useHistory<T extends object>({ tool, state, apply, revive }: HistoryOptions<T>) {
+  const [history, setHistory] = useState<StoredHistory<T>>(() => ({
+    entries: [entryFor(state, 'Opened', [], Date.now())],
+    index: 0,
+  }));
+  const [restored, setRestored] = useState(false);
+
+  const current = history.entries[history.index];
+  // Settings changed but not committed yet: undo reverts those first
+  const pending = !isEqual(state, current.state);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadHistoryFromDB<T>(tool)
+      .then(stored => {
+        if (cancelled || !stored || stored.entries.length === 0) return;
+        const entries = revive ? stored.entries.map(e => ({ ...e, state: revive(e.state) })) : stored.entries;
+        setHistory(local => restore({ entries, index: stored.index }, local));
+      })
+      .catch(() => {})
+      .then(() => { if (!cancelled) setRestored(true); });
+    return () => { cancelled = true; };
+  }, [tool, revive]);
+
+  useEffect(() => {
+    if (!pending) return;
+    const timer = setTimeout(() => setHistory(prev => commit(prev, state, Date.now())), COMMIT_DELAY);
+    return () => clearTimeout(timer);
+  }, [state, pending]);
+
+  // Waits for the stored history so a fresh page doesn't overwrite it
+  useEffect(() => {
+    if (!restored) return;
+    saveHistoryToDB(tool, history).catch(() => {});
+  }, [tool, history, restored]);
+
+  const jump = useCallback((index: number) => {
+    const entry = history.entries[index];
+    if (!entry) return;
+    setHistory(prev => ({ ...prev, index }));
+    apply(entry.state);
+  }, [history.entries, apply]);
+
+  const undo = useCallback(() => {
+    if (pending) apply(current.state);
+    else if (history.index > 0) jump(history.index - 1);
+  }, [pending, current, history.index, apply, jump]);
+
+  const redo = useCallback(() => {
+    if (!pending && history.index < history.entries.length - 1) jump(history.index + 1);
+  }, [pending, history.index, history.entries.length, jump]);
+
+  // Keeps only the current settings as the new starting point
+  const clear = useCallback(() => {
+    setHistory({ entries: [entryFor(state, 'Cleared', [], Date.now())], index: 0 });
+  }, [state]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey || e.key.toLowerCase() !== 'z') return;
+      if (isTextField(e.target)) return;
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    entries:  history.entries,
+    index:    history.index,
+    canUndo:  pending || history.index > 0,
+    canRedo:  !pending && history.index < history.entries.length - 1,
+    undo, redo, jump, clear,
+  };
+}